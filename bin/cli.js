@@ -6,7 +6,7 @@ import ora from 'ora';
 import { spawn } from 'child_process';
 import fs from 'fs-extra';
 import path from 'path';
-import { fileURLToPath } from 'url';
+import { fileURLToPath, pathToFileURL } from 'url';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const packageJson = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf8'));
@@ -22,7 +22,7 @@ program
 program
   .command('start')
   .description('Start the MCP/RAG system')
-  .option('-m, --mode <mode>', 'Automation mode (observer|assistant|semi-auto|full-auto)', 'assistant')
+  .option('-m, --mode <mode>', 'Automation mode (observer|assistant|semi-auto|full-auto), defaults to the configured one')
   .option('-a, --agents <agents>', 'Comma-separated list of agents to start', 'auditor,implementer,validator')
   .option('-d, --dashboard', 'Start with dashboard', false)
   .action(async (options) => {
@@ -35,6 +35,9 @@ program
     }
 
     const config = await fs.readJson(configPath);
+    // --mode overrides the level saved by create-mcp-rag or `mcp-rag config`
+    const automationLevel = options.mode || config.automationLevel || process.env.AUTOMATION_LEVEL || 'assistant';
+    console.log(chalk.gray(`Automation level: ${automationLevel}`));
     
     // Start the system
     const spinner = ora('Launching agents...').start();
@@ -42,7 +45,7 @@ program
     try {
       const env = {
         ...process.env,
-        AUTOMATION_LEVEL: options.mode,
+        AUTOMATION_LEVEL: automationLevel,
         ENABLED_AGENTS: options.agents
       };
 
@@ -240,4 +243,700 @@ program
     }
   });
 
+// Task commands
+const STATUS_ICONS = {
+  awaiting_approval: '✋',
+  pending: '⏳',
+  in_progress: '🔄',
+  blocked: '🚫',
+  completed: '✅',
+  cancelled: '✖️',
+  failed: '💥'
+};
+
+const list = (value) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Task and context commands work on the shared context directly, through the compiled sources
+const load = (module) => import(pathToFileURL(path.join(__dirname, '..', 'dist', 'src', 'coordination', module)).href);
+
+// A missing module means there is no build yet; anything else is a real error
+function exitOnLoadError(what, error) {
+  if (error.code === 'ERR_MODULE_NOT_FOUND') {
+    console.error(chalk.red(`❌ Could not load the ${what}. Run "npm run build" first.`));
+    console.error(chalk.gray(error.message));
+  } else {
+    console.error(chalk.red(`❌ Could not load the ${what}: ${error.message}`));
+  }
+  process.exit(1);
+}
+
+async function withTaskManager(fn) {
+  process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+  let modules;
+  try {
+    modules = await Promise.all([
+      load('context/context-manager.js'),
+      load('rag-system.js'),
+      load('task-manager.js')
+    ]);
+  } catch (error) {
+    exitOnLoadError('task manager', error);
+  }
+
+  const [{ ContextManager }, { RAGSystem }, { TaskManager }] = modules;
+  const contextManager = new ContextManager();
+  const ragSystem = new RAGSystem();
+  const taskManager = new TaskManager(contextManager, ragSystem);
+
+  let exitCode = 0;
+  try {
+    await contextManager.initialize();
+    await ragSystem.initialize();
+    await taskManager.initialize();
+    await fn(taskManager);
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error.message}`));
+    exitCode = 1;
+  } finally {
+    await taskManager.shutdown();
+    await contextManager.shutdown();
+    await ragSystem.shutdown();
+  }
+
+  process.exit(exitCode);
+}
+
+async function withContextManager(fn) {
+  process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+
+  let ContextManager;
+  try {
+    ({ ContextManager } = await load('context/context-manager.js'));
+  } catch (error) {
+    exitOnLoadError('context manager', error);
+  }
+
+  const contextManager = new ContextManager();
+  let exitCode = 0;
+  try {
+    await contextManager.initialize();
+    await fn(contextManager);
+  } catch (error) {
+    console.error(chalk.red(`❌ ${error.message}`));
+    exitCode = 1;
+  } finally {
+    await contextManager.shutdown();
+  }
+
+  process.exit(exitCode);
+}
+
+function printTask(task, options) {
+  if (options.json) {
+    console.log(JSON.stringify(task, null, 2));
+    return;
+  }
+
+  console.log(`${STATUS_ICONS[task.status] || '•'} [${task.priority}] ${chalk.bold(task.title)}`);
+  console.log(chalk.gray(`   ID: ${task.id}`));
+  console.log(`   Status: ${task.status}${task.blockedBy ? ` (${task.blockedBy})` : ''}`);
+  console.log(`   Tags: ${task.tags.join(', ')}`);
+  if (task.assignedRole) console.log(`   Role: ${task.assignedRole}`);
+  if (task.assignedTo) console.log(`   Assigned: ${task.assignedTo}`);
+  if (task.lease) console.log(`   Lease expires: ${task.lease.expiresAt}`);
+  if (task.estimate) console.log(`   Estimate: ${task.estimate}h`);
+  if (task.attempts) console.log(`   Failed attempts: ${task.attempts}${task.nextRetryAt ? `, next retry after ${task.nextRetryAt}` : ''}`);
+  if (task.dependencies?.length) console.log(`   Depends on: ${task.dependencies.join(', ')}`);
+  if (task.parentId) console.log(`   Parent: ${task.parentId}`);
+  if (task.children?.length) console.log(`   Subtasks: ${task.children.length} (${task.progress || 0}% done)`);
+}
+
+function printTaskDetails(task, dwellTimes, options) {
+  if (options.json) {
+    console.log(JSON.stringify({ ...task, dwellTimes }, null, 2));
+    return;
+  }
+
+  printTask(task, options);
+  console.log(`\n${task.description}\n`);
+
+  for (const criterion of task.acceptanceCriteria || []) {
+    const mark = criterion.status === 'checked' ? '[x]' : criterion.status === 'waived' ? '[~]' : '[ ]';
+    console.log(`   ${mark} ${criterion.description}`);
+  }
+
+  const spent = Object.entries(dwellTimes).filter(([, hours]) => hours > 0);
+  if (spent.length > 0) {
+    console.log(chalk.cyan('\nTime in status:'));
+    spent.forEach(([status, hours]) => console.log(`   ${status}: ${hours}h`));
+  }
+
+  if (task.history?.length) {
+    console.log(chalk.cyan('\nHistory:'));
+    for (const entry of task.history) {
+      const change = entry.from || entry.to ? ` ${entry.from || ''} → ${entry.to || ''}` : '';
+      console.log(chalk.gray(`   ${entry.timestamp} ${entry.event}${change} by ${entry.actor}${entry.reason ? `: ${entry.reason}` : ''}`));
+    }
+  }
+  console.log('');
+}
+
+const task = program
+  .command('task')
+  .description('Inspect and manage tasks');
+
+task
+  .command('list')
+  .description('List tasks in scheduling order')
+  .option('-t, --tags <tags>', 'Only tasks with any of these comma-separated tags', list)
+  .option('-x, --exclude-tags <tags>', 'Skip tasks with any of these comma-separated tags', list)
+  .option('-r, --roles <roles>', 'Only tasks for these comma-separated roles', list)
+  .option('-s, --status <statuses>', 'Only tasks with these comma-separated statuses', list)
+  .option('-p, --priority <priorities>', 'Only tasks with these comma-separated priorities', (value) => list(value).map(Number))
+  .option('-a, --assigned-to <instance>', 'Only tasks assigned to this instance')
+  .option('--all', 'Include completed tasks', false)
+  .option('--json', 'Output JSON', false)
+  .action((options) => withTaskManager(async (taskManager) => {
+    const tasks = await taskManager.getScheduledTasks({
+      tags: options.tags,
+      excludeTags: options.excludeTags,
+      roles: options.roles,
+      status: options.status,
+      priority: options.priority,
+      assignedTo: options.assignedTo,
+      includeCompleted: options.all || options.status?.includes('completed')
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(tasks, null, 2));
+      return;
+    }
+
+    if (tasks.length === 0) {
+      console.log(chalk.yellow('No matching tasks'));
+      return;
+    }
+
+    tasks.forEach(item => {
+      printTask(item, options);
+      console.log('');
+    });
+  }));
+
+task
+  .command('search <query...>')
+  .description('Search tasks by keywords and meaning, best matches first')
+  .option('-t, --tags <tags>', 'Only tasks with any of these comma-separated tags', list)
+  .option('-r, --roles <roles>', 'Only tasks for these comma-separated roles', list)
+  .option('-s, --status <statuses>', 'Only tasks with these comma-separated statuses', list)
+  .option('--from <date>', 'Only tasks on or after this date')
+  .option('--to <date>', 'Only tasks on or before this date')
+  .option('--date-field <field>', 'Date the range applies to (createdAt|updatedAt|completedAt)', 'createdAt')
+  .option('--no-semantic', 'Keyword matches only')
+  .option('-l, --limit <n>', 'Results per page', Number, 10)
+  .option('--page <n>', 'Page number, starting at 1', Number, 1)
+  .option('--json', 'Output JSON', false)
+  .action((words, options) => withTaskManager(async (taskManager) => {
+    const toIso = (value, flag) => {
+      if (!value) return undefined;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new Error(`Invalid date for ${flag}: ${value}`);
+      }
+      return date.toISOString();
+    };
+
+    const result = await taskManager.searchTasks(words.join(' '), {
+      filter: { tags: options.tags, roles: options.roles, status: options.status, includeCompleted: true },
+      from: toIso(options.from, '--from'),
+      to: toIso(options.to, '--to'),
+      dateField: options.dateField,
+      semantic: options.semantic,
+      limit: options.limit,
+      offset: (Math.max(options.page, 1) - 1) * options.limit
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.total === 0) {
+      console.log(chalk.yellow(`No tasks match "${result.query}"`));
+      return;
+    }
+
+    const last = Math.min(result.offset + result.hits.length, result.total);
+    console.log(chalk.cyan(`\n🔎 ${result.offset + 1}-${last} of ${result.total} for "${result.query}"\n`));
+
+    result.hits.forEach(hit => {
+      console.log(`${STATUS_ICONS[hit.task.status] || '•'} ${chalk.bold(hit.task.title)} ${chalk.gray(`(${hit.score})`)}`);
+      console.log(chalk.gray(`   ID: ${hit.task.id}  Created: ${hit.task.createdAt}`));
+      hit.highlights.slice(0, 3).forEach(({ field, snippet }) => {
+        console.log(`   ${chalk.gray(`${field}:`)} ${snippet.replace(/\*\*(.+?)\*\*/g, (_, match) => chalk.yellow(match))}`);
+      });
+      console.log('');
+    });
+  }));
+
+task
+  .command('show <id>')
+  .description('Show a task with its acceptance criteria and history')
+  .option('--json', 'Output JSON', false)
+  .action((id, options) => withTaskManager(async (taskManager) => {
+    const found = await taskManager.getTask(id);
+    if (!found) {
+      throw new Error(`Task ${id} not found`);
+    }
+    printTaskDetails(found, await taskManager.getDwellTimes(id), options);
+  }));
+
+task
+  .command('update <id>')
+  .description('Update task fields')
+  .option('--title <title>', 'New title')
+  .option('--description <description>', 'New description')
+  .option('--tags <tags>', 'Replace tags (comma-separated)', list)
+  .option('--priority <priority>', 'New priority (1-5)', Number)
+  .option('--role <role>', 'Assign to a role (auditor|implementer|validator)')
+  .option('--status <status>', 'New status (use task claim or task fail to start or fail a task)')
+  .option('--depends-on <ids>', 'Replace dependencies (comma-separated task IDs)', list)
+  .option('--estimate <hours>', 'Expected effort in hours', Number)
+  .option('--reason <reason>', 'Reason recorded in the task history')
+  .option('--by <instance>', 'Who is making the change', 'cli-user')
+  .option('--json', 'Output JSON', false)
+  .action((id, options) => withTaskManager(async (taskManager) => {
+    const updates = {
+      title: options.title,
+      description: options.description,
+      tags: options.tags,
+      priority: options.priority,
+      assignedRole: options.role,
+      status: options.status,
+      dependencies: options.dependsOn,
+      estimate: options.estimate,
+      reason: options.reason
+    };
+    Object.keys(updates).forEach(key => updates[key] === undefined && delete updates[key]);
+
+    if (Object.keys(updates).length === 0) {
+      throw new Error('Nothing to update');
+    }
+
+    printTask(await taskManager.updateTask(id, updates, options.by), options);
+  }));
+
+task
+  .command('claim <id>')
+  .description('Claim a task and start working on it')
+  .option('--by <instance>', 'Instance claiming the task', 'cli-user')
+  .option('--role <role>', 'Role whose task timeout sets the lease length')
+  .option('--json', 'Output JSON', false)
+  .action((id, options) => withTaskManager(async (taskManager) => {
+    printTask(await taskManager.claimTask(id, options.by, options.role), options);
+  }));
+
+task
+  .command('release <id>')
+  .description('Give an in-progress task back to the queue')
+  .option('--by <instance>', 'Instance releasing the task', 'cli-user')
+  .option('--reason <reason>', 'Reason recorded in the task history')
+  .option('--json', 'Output JSON', false)
+  .action((id, options) => withTaskManager(async (taskManager) => {
+    printTask(await taskManager.releaseTask(id, options.by, options.reason), options);
+  }));
+
+task
+  .command('cancel <id>')
+  .description('Cancel a task; its dependents are blocked until it is reopened, or cancelled with --cascade cancel')
+  .option('--by <instance>', 'Who is cancelling the task', 'cli-user')
+  .option('--reason <reason>', 'Reason recorded in the task history')
+  .option('--cascade <mode>', 'What happens to dependents (block|cancel)')
+  .option('--json', 'Output JSON', false)
+  .action((id, options) => withTaskManager(async (taskManager) => {
+    printTask(await taskManager.cancelTask(id, options.by, options.reason, options.cascade), options);
+  }));
+
+task
+  .command('reopen <id>')
+  .description('Put a completed, cancelled or blocked task back to pending')
+  .option('--by <instance>', 'Who is reopening the task', 'cli-user')
+  .option('--reason <reason>', 'Reason recorded in the task history')
+  .option('--json', 'Output JSON', false)
+  .action((id, options) => withTaskManager(async (taskManager) => {
+    printTask(await taskManager.reopenTask(id, options.by, options.reason), options);
+  }));
+
+task
+  .command('block <id> <reason>')
+  .description('Mark a task as blocked')
+  .option('--by <instance>', 'Who is blocking the task', 'cli-user')
+  .option('--json', 'Output JSON', false)
+  .action((id, reason, options) => withTaskManager(async (taskManager) => {
+    printTask(await taskManager.blockTask(id, options.by, reason), options);
+  }));
+
+task
+  .command('fail <id> <error>')
+  .description('Report a failed attempt; the retry policy decides whether the task is retried or dead-lettered')
+  .option('--by <instance>', 'Instance the task is assigned to', 'cli-user')
+  .option('--no-retry', 'Dead-letter the task without retrying')
+  .option('--json', 'Output JSON', false)
+  .action((id, error, options) => withTaskManager(async (taskManager) => {
+    printTask(await taskManager.failTask(id, options.by, error, { retryable: options.retry }), options);
+  }));
+
+task
+  .command('tree [id]')
+  .description('Show the dependency tree of a task, or of all tasks nothing depends on')
+  .option('--all', 'Include completed tasks', false)
+  .option('--json', 'Output the task graph as JSON', false)
+  .action((id, options) => withTaskManager(async (taskManager) => {
+    if (options.json) {
+      console.log(JSON.stringify(await taskManager.getTaskGraph(id), null, 2));
+      return;
+    }
+
+    const tasks = new Map((await taskManager.getTasks({ includeCompleted: true })).map(item => [item.id, item]));
+    if (id && !tasks.has(id)) {
+      throw new Error(`Task ${id} not found`);
+    }
+
+    const dependedOn = new Set([...tasks.values()].flatMap(item => item.dependencies || []));
+    const roots = id
+      ? [tasks.get(id)]
+      : [...tasks.values()].filter(item => !dependedOn.has(item.id) && (options.all || item.status !== 'completed'));
+
+    const render = (taskId, prefix, last, seen) => {
+      const item = tasks.get(taskId);
+      const branch = prefix === null ? '' : `${prefix}${last ? '└── ' : '├── '}`;
+      const label = item
+        ? `${STATUS_ICONS[item.status] || '•'} ${item.title} ${chalk.gray(item.id)}`
+        : chalk.red(`missing ${taskId}`);
+
+      if (seen.has(taskId)) {
+        console.log(`${branch}${label} ${chalk.yellow('(cycle)')}`);
+        return;
+      }
+      console.log(`${branch}${label}`);
+
+      const deps = (item?.dependencies || [])
+        .filter(depId => options.all || id || tasks.get(depId)?.status !== 'completed');
+      const childPrefix = prefix === null ? '' : `${prefix}${last ? '    ' : '│   '}`;
+      deps.forEach((depId, index) => render(depId, childPrefix, index === deps.length - 1, new Set([...seen, taskId])));
+    };
+
+    if (roots.length === 0) {
+      console.log(chalk.yellow('No tasks'));
+      return;
+    }
+
+    roots.forEach(root => render(root.id, null, true, new Set()));
+  }));
+
+task
+  .command('dead-letter')
+  .description('List failed tasks that exhausted their retries')
+  .option('--json', 'Output JSON', false)
+  .action((options) => withTaskManager(async (taskManager) => {
+    const tasks = await taskManager.getDeadLetterTasks();
+
+    if (options.json) {
+      console.log(JSON.stringify(tasks, null, 2));
+      return;
+    }
+
+    if (tasks.length === 0) {
+      console.log(chalk.green('Dead-letter queue is empty'));
+      return;
+    }
+
+    tasks.forEach(item => {
+      console.log(`${STATUS_ICONS.failed} ${chalk.bold(item.title)}`);
+      console.log(chalk.gray(`   ID: ${item.taskId}`));
+      console.log(`   Attempts: ${item.attempts}/${item.maxAttempts}`);
+      if (item.lastError) console.log(chalk.red(`   Last error: ${item.lastError}`));
+      if (item.failedAt) console.log(`   Failed at: ${item.failedAt}`);
+      console.log('');
+    });
+  }));
+
+task
+  .command('requeue <id>')
+  .description('Put a failed task back in the queue')
+  .option('--by <instance>', 'Who is requeueing the task', 'cli-user')
+  .option('--reason <reason>', 'Reason recorded in the task history')
+  .option('--keep-attempts', 'Keep the attempt count instead of starting over', false)
+  .option('--json', 'Output JSON', false)
+  .action((id, options) => withTaskManager(async (taskManager) => {
+    printTask(await taskManager.requeueTask(id, options.by, {
+      reason: options.reason,
+      resetAttempts: !options.keepAttempts
+    }), options);
+  }));
+
+task
+  .command('analytics')
+  .description('Lead time, cycle time, throughput and estimate accuracy for completed tasks')
+  .option('--from <date>', 'Start of the range (default: 7 days before --to)')
+  .option('--to <date>', 'End of the range (default: now)')
+  .option('--json', 'Output JSON', false)
+  .action((options) => withTaskManager(async (taskManager) => {
+    const parseDate = (value, flag) => {
+      if (!value) return undefined;
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new Error(`Invalid date for ${flag}: ${value}`);
+      }
+      return date;
+    };
+
+    const report = await taskManager.getTaskAnalytics({
+      from: parseDate(options.from, '--from'),
+      to: parseDate(options.to, '--to')
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(report, null, 2));
+      return;
+    }
+
+    const stats = (label, value) =>
+      console.log(`   ${label}: avg ${value.average}h, median ${value.median}h, p90 ${value.p90}h (${value.count} tasks)`);
+
+    console.log(chalk.cyan.bold(`\n📈 Task Analytics ${report.from} → ${report.to}\n`));
+    console.log(`   Completed: ${report.completed}`);
+    stats('Lead time', report.leadTime);
+    stats('Cycle time', report.cycleTime);
+
+    console.log(chalk.cyan('\nThroughput by role:'));
+    Object.entries(report.throughputByRole)
+      .forEach(([role, value]) => console.log(`   ${role}: ${value.completed} (${value.perDay}/day)`));
+
+    console.log(chalk.cyan('\nAverage time in status:'));
+    Object.entries(report.averageDwellTimes)
+      .forEach(([status, hours]) => console.log(`   ${status}: ${hours}h`));
+
+    const accuracy = report.estimateAccuracy;
+    console.log(chalk.cyan('\nEstimates:'));
+    console.log(accuracy.estimated > 0
+      ? `   ${accuracy.estimated} estimated, actual/estimate ${accuracy.averageRatio}, ${accuracy.withinTolerance} within 20%`
+      : '   No completed tasks had an estimate');
+    console.log('');
+  }));
+
+// Approval commands decide what the automation level held for a human
+const APPROVAL_ICONS = {
+  awaiting_approval: '✋',
+  approved: '👍',
+  rejected: '👎'
+};
+
+function printApproval(approval, options) {
+  if (options.json) {
+    console.log(JSON.stringify(approval, null, 2));
+    return;
+  }
+
+  console.log(`${APPROVAL_ICONS[approval.status] || '•'} [${approval.action}] ${chalk.bold(approval.summary)}`);
+  console.log(chalk.gray(`   ID: ${approval.id}`));
+  if (approval.taskId) console.log(`   Task: ${approval.taskId}`);
+  if (approval.files?.length) console.log(`   Files: ${approval.files.join(', ')}`);
+  console.log(`   Requested by ${approval.requestedBy} at ${approval.requestedAt} (${approval.automationLevel})`);
+  if (approval.policyReason) console.log(`   Held because: ${approval.policyReason}`);
+  if (approval.decidedBy) {
+    console.log(`   ${approval.status} by ${approval.decidedBy} at ${approval.decidedAt}${approval.reason ? `: ${approval.reason}` : ''}`);
+  }
+}
+
+program
+  .command('approvals')
+  .description('List approval requests, by default those awaiting a decision')
+  .option('-s, --status <status>', 'awaiting_approval, approved or rejected')
+  .option('--all', 'Include decided requests', false)
+  .option('--json', 'Output JSON', false)
+  .action((options) => withTaskManager(async (taskManager) => {
+    const approvals = await taskManager.getApprovals(options.all ? options.status : options.status || 'awaiting_approval');
+
+    if (options.json) {
+      console.log(JSON.stringify(approvals, null, 2));
+      return;
+    }
+
+    if (approvals.length === 0) {
+      console.log(chalk.green('Nothing is awaiting approval'));
+      return;
+    }
+
+    approvals.forEach(approval => {
+      printApproval(approval, options);
+      console.log('');
+    });
+  }));
+
+program
+  .command('approve <id> [reason...]')
+  .description('Approve a request, by approval ID or the ID of a task awaiting approval')
+  .option('--by <name>', 'Who is approving', 'cli-user')
+  .option('--json', 'Output JSON', false)
+  .action((id, reason, options) => withTaskManager(async (taskManager) => {
+    printApproval(await taskManager.approve(id, options.by, reason.join(' ') || undefined), options);
+  }));
+
+program
+  .command('reject <id> <reason...>')
+  .description('Reject a request; a rejected task is cancelled')
+  .option('--by <name>', 'Who is rejecting', 'cli-user')
+  .option('--json', 'Output JSON', false)
+  .action((id, reason, options) => withTaskManager(async (taskManager) => {
+    printApproval(await taskManager.reject(id, options.by, reason.join(' ')), options);
+  }));
+
+// Context history commands read the change log and snapshots
+const version = (value) => {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new Error(`"${value}" is not a context version`);
+  }
+  return parsed;
+};
+
+const context = program
+  .command('context')
+  .description('Inspect and roll back the shared context');
+
+context
+  .command('diff <from> <to>')
+  .description('Show what changed between two context versions')
+  .option('--json', 'Output JSON', false)
+  .action((from, to, options) => withContextManager(async (contextManager) => {
+    const diff = await contextManager.diff(version(from), version(to));
+
+    if (options.json) {
+      console.log(JSON.stringify(diff, null, 2));
+      return;
+    }
+
+    if (diff.changes.length === 0) {
+      console.log(chalk.green(`No changes between versions ${diff.from} and ${diff.to}`));
+      return;
+    }
+
+    const show = (value) => JSON.stringify(value);
+    diff.changes.forEach(change => {
+      if (!('before' in change)) {
+        console.log(chalk.green(`+ ${change.path}: ${show(change.after)}`));
+      } else if (!('after' in change)) {
+        console.log(chalk.red(`- ${change.path}: ${show(change.before)}`));
+      } else {
+        console.log(chalk.yellow(`~ ${change.path}: ${show(change.before)} → ${show(change.after)}`));
+      }
+    });
+  }));
+
+context
+  .command('restore <version>')
+  .description('Roll the context back to an earlier version, as a new version')
+  .option('--by <name>', 'Who is restoring', 'cli-user')
+  .option('--json', 'Output JSON', false)
+  .action((target, options) => withContextManager(async (contextManager) => {
+    const result = await contextManager.restore(version(target), options.by);
+
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else if (result.changed.length === 0) {
+      console.log(chalk.green(`The context already matches version ${target}`));
+    } else {
+      console.log(chalk.green(`✅ Restored version ${target} as version ${result.version}`));
+      result.changed.forEach(key => console.log(`   ${key}`));
+    }
+  }));
+
+context
+  .command('migrate')
+  .description('Upgrade the stored context to the current schema version')
+  .option('--dry-run', 'Show what would change without writing anything', false)
+  .option('--json', 'Output JSON', false)
+  .action(async (options) => {
+    if (!options.dryRun) {
+      // Loading the context migrates it
+      return withContextManager(async (contextManager) => {
+        printMigration(contextManager.getMigrationReport(), options);
+      });
+    }
+
+    process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
+    let modules;
+    try {
+      modules = await Promise.all([load('context/context-storage.js'), load('context/context-migrations.js')]);
+    } catch (error) {
+      exitOnLoadError('context store', error);
+    }
+
+    const [{ createContextStorage }, { previewContextMigration }] = modules;
+    const storage = createContextStorage();
+    let exitCode = 0;
+    try {
+      await storage.initialize();
+      const stored = await storage.load();
+      printMigration(stored === undefined ? undefined : previewContextMigration(stored), options);
+    } catch (error) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      exitCode = 1;
+    } finally {
+      await storage.close();
+    }
+    process.exit(exitCode);
+  });
+
+function printMigration(report, options) {
+  if (options.json) {
+    console.log(JSON.stringify(report ?? null, null, 2));
+    return;
+  }
+
+  if (!report) {
+    console.log(chalk.yellow('There is no stored context yet'));
+    return;
+  }
+  if (report.applied.length === 0) {
+    console.log(chalk.green(`The context is at schema version ${report.to}, nothing to migrate`));
+    return;
+  }
+
+  const verb = options.dryRun ? 'Would migrate' : 'Migrated';
+  console.log(chalk.cyan.bold(`${verb} the context from schema version ${report.from} to ${report.to}\n`));
+  report.applied.forEach(migration => {
+    console.log(`${chalk.bold(`v${migration.version}`)} ${migration.description}`);
+    migration.changes.forEach(change => console.log(`   ${change}`));
+    migration.warnings.forEach(warning => console.log(chalk.yellow(`   ⚠️  ${warning}`)));
+  });
+
+  if (report.differences?.length) {
+    console.log(chalk.bold(`\n${report.differences.length} path(s) would change:`));
+    report.differences.forEach(({ path }) => console.log(`   ${path}`));
+  }
+}
+
+context
+  .command('snapshots')
+  .description('List the context snapshots history is rebuilt from')
+  .option('--json', 'Output JSON', false)
+  .action((options) => withContextManager(async (contextManager) => {
+    const snapshots = await contextManager.listSnapshots();
+
+    if (options.json) {
+      console.log(JSON.stringify(snapshots, null, 2));
+      return;
+    }
+
+    if (snapshots.length === 0) {
+      console.log(chalk.yellow('No snapshots yet'));
+      return;
+    }
+
+    snapshots.forEach(snapshot => console.log(`Version ${snapshot.version}  ${chalk.gray(snapshot.timestamp)}`));
+  }));
+
 program.parse();
\ No newline at end of file
@@ -4,6 +4,8 @@ import { ContextManager } from '../src/coordination/context/context-manager.js';
 import { RAGSystem } from '../src/coordination/rag-system.js';
 import { TaskManager } from '../src/coordination/task-manager.js';
 import { TaskPriority } from '../src/types/tasks.js';
+import { TaskExportFormat, detectFormat } from '../src/coordination/task-io.js';
+import { readFileSync, writeFileSync } from 'fs';
 
 async function main() {
   const command = process.argv[2];
@@ -121,11 +123,58 @@ async function main() {
       break;
     }
     
+    case 'export': {
+      // Example: npm run task:export tasks.jsonl   (or: task:export csv > tasks.csv)
+      const target = process.argv.slice(3).find(arg => !arg.startsWith('--'));
+      const format = (target && detectFormat(target)) || target as TaskExportFormat || 'jsonl';
+
+      if (!['jsonl', 'csv', 'markdown'].includes(format)) {
+        console.error('Usage: task:export [file.jsonl|file.csv|file.md|jsonl|csv|markdown]');
+        process.exit(1);
+      }
+
+      const output = await taskManager.exportTasks(format, {
+        includeCompleted: !process.argv.includes('--open')
+      });
+
+      if (target && detectFormat(target)) {
+        writeFileSync(target, output);
+        console.log(`✅ Exported tasks to ${target}`);
+      } else {
+        process.stdout.write(output);
+      }
+      break;
+    }
+
+    case 'import': {
+      // Example: npm run task:import todo.md -- --dry-run
+      const file = process.argv[3];
+      const formatArg = process.argv.find(arg => arg.startsWith('--format='))?.split('=')[1];
+      const format = (formatArg as TaskExportFormat) || (file && detectFormat(file));
+
+      if (!file || !format) {
+        console.error('Usage: task:import <file.jsonl|file.csv|file.md> [--format=jsonl|csv|markdown] [--dry-run]');
+        process.exit(1);
+      }
+
+      const result = await taskManager.importTasks(readFileSync(file, 'utf8'), format, 'cli-import', {
+        dryRun: process.argv.includes('--dry-run')
+      });
+
+      console.log(result.dryRun ? '\n🔍 Dry run, nothing written:\n' : '\n📥 Import:\n');
+      result.diff.forEach(line => console.log(`   ${line}`));
+      console.log('');
+      console.log(`${result.dryRun ? 'Would create' : 'Created'} ${result.created.length}, skipped ${result.skipped.length}, warnings ${result.warnings.length}`);
+      break;
+    }
+
     default:
-      console.log('Usage: tsx task-manager.ts [list|create|seed] [options]');
+      console.log('Usage: tsx task-manager.ts [list|create|seed|export|import] [options]');
       console.log('  list [--all]  List tasks (include completed with --all)');
       console.log('  create        Create a new task');
       console.log('  seed          Create example tasks');
+      console.log('  export [file] Export tasks as JSON Lines, CSV or a Markdown checklist');
+      console.log('  import <file> Import tasks (--dry-run shows the diff without writing)');
   }
 
   await contextManager.shutdown();
@@ -4,6 +4,12 @@ import { ContextManager } from '../src/coordination/context/context-manager.js';
 import { RAGSystem } from '../src/coordination/rag-system.js';
 import { WorktreeManager } from '../src/coordination/worktree-manager.js';
 import { RecoverySystem } from '../src/coordination/recovery/recovery-system.js';
+import { TaskManager } from '../src/coordination/task-manager.js';
+import { CoordinationError } from '../src/coordination/errors.js';
+import { parseCron, nextCronRun } from '../src/coordination/task-schedules.js';
+import { TaskExportFormat, parseTasks, serializeTasks } from '../src/coordination/task-io.js';
+import { CURRENT_SCHEMA_VERSION, migrateContext } from '../src/coordination/context/context-migrations.js';
+import { Task } from '../src/types/tasks.js';
 import { config } from '../src/config/index.js';
 
 interface TestResult {
@@ -60,6 +66,106 @@ class SystemTester {
       await wm.initialize();
     });
     
+    await this.test('Task Schedules - Parse and Next Run', async () => {
+      const cron = parseCron('*/15 9-17 * * mon-fri');
+      if (cron.minutes.size !== 4 || !cron.hours.has(17) || cron.daysOfWeek.has(0) || !cron.anyDayOfMonth) {
+        throw new Error('Cron fields parsed wrong');
+      }
+
+      // Friday evening rolls over to Monday morning, in UTC
+      const next = nextCronRun(cron, new Date('2024-03-01T17:50:00Z'));
+      if (next.toISOString() !== '2024-03-04T09:00:00.000Z') {
+        throw new Error(`Unexpected next run ${next.toISOString()}`);
+      }
+      if (nextCronRun('@daily', new Date('2024-12-31T23:59:00Z')).toISOString() !== '2025-01-01T00:00:00.000Z') {
+        throw new Error('@daily did not run at midnight');
+      }
+
+      for (const invalid of ['* * * *', '61 * * * *', '0 0 30 2 *']) {
+        let rejected = false;
+        try {
+          nextCronRun(invalid, new Date());
+        } catch {
+          rejected = true;
+        }
+        if (!rejected) {
+          throw new Error(`"${invalid}" was accepted`);
+        }
+      }
+    });
+
+    await this.test('Task IO - Round Trip', async () => {
+      const now = new Date().toISOString();
+      const tasks: Task[] = [
+        {
+          id: 'task-a',
+          title: 'Fix "login", then logout',
+          description: 'Session cookie is not cleared',
+          tags: ['auth', 'bug'],
+          status: 'completed',
+          priority: 4,
+          assignedRole: 'implementer',
+          createdBy: 'test-agent',
+          createdAt: now,
+          updatedAt: now,
+          completedAt: now
+        },
+        {
+          id: 'task-b',
+          title: 'Add regression test',
+          description: 'Cover logout',
+          tags: ['tests'],
+          status: 'pending',
+          priority: 2,
+          dependencies: ['task-a'],
+          createdBy: 'test-agent',
+          createdAt: now,
+          updatedAt: now
+        }
+      ];
+
+      for (const format of ['jsonl', 'csv', 'markdown'] as TaskExportFormat[]) {
+        const records = parseTasks(serializeTasks(tasks, format), format);
+        if (records.length !== tasks.length) {
+          throw new Error(`${format}: read ${records.length} of ${tasks.length} tasks`);
+        }
+
+        records.forEach((record, index) => {
+          const task = tasks[index];
+          // Markdown checklists only carry titles
+          const description = format === 'markdown' ? task.title : task.description;
+          const expected = [task.id, task.title, description, task.tags, task.status, task.priority, task.dependencies || []];
+          const actual = [record.sourceId, record.title, record.description, record.tags, record.status, record.priority, record.dependencies];
+          if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+            throw new Error(`${format}: ${JSON.stringify(actual)} does not match ${JSON.stringify(expected)}`);
+          }
+        });
+      }
+    });
+
+    await this.test('Context Migrations - Upgrade Legacy Context', async () => {
+      const raw: any = {
+        version: 4,
+        globalState: { 'build.status': 'green' },
+        agentStates: {}
+      };
+
+      const report = migrateContext(raw);
+      if (report.from !== 0 || report.to !== CURRENT_SCHEMA_VERSION || raw.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+        throw new Error(`Migrated from ${report.from} to ${report.to}`);
+      }
+      if (raw.globalState.build?.status !== 'green' || 'build.status' in raw.globalState || !raw.expiries) {
+        throw new Error('Legacy context was not upgraded');
+      }
+      if (migrateContext(raw).applied.length !== 0) {
+        throw new Error('Migrations ran twice');
+      }
+
+      await this.expectError('CONTEXT_SCHEMA_TOO_NEW', async () => {
+        migrateContext({ schemaVersion: CURRENT_SCHEMA_VERSION + 1 });
+      });
+    });
+    
     await this.test('Logger - All Levels', async () => {
       logger.debug('test', 'Debug message');
       logger.info('test', 'Info message');
@@ -82,6 +188,47 @@ class SystemTester {
       logger.info('SystemTester', 'Simulating agent coordination test');
     });
     
+    await this.test('Task Manager - Lease Ownership', async () => {
+      await this.withTaskManager(async (tm) => {
+        const task = await tm.createTask('Lease test', 'Claimed by one instance', ['test'], 'test-agent', { duplicatePolicy: 'off' });
+        await tm.claimTask(task.id, 'instance-1');
+
+        await this.expectError('CLAIM_NOT_HELD', () => tm.updateTask(task.id, { status: 'blocked' }, 'instance-2'));
+        await this.expectError('CLAIMED_TASK_REASSIGN', () => tm.updateTask(task.id, { assignedTo: 'instance-2' }, 'instance-1'));
+
+        let renewedByOther = true;
+        await tm.renewClaim(task.id, 'instance-2').catch(() => { renewedByOther = false; });
+        if (renewedByOther) {
+          throw new Error('Another instance renewed the claim');
+        }
+
+        const renewed = await tm.renewClaim(task.id, 'instance-1');
+        if (renewed.lease?.holder !== 'instance-1') {
+          throw new Error('Holder could not renew its claim');
+        }
+
+        // Reassigning goes through release and claim
+        await tm.releaseTask(task.id, 'instance-1');
+        const claimed = await tm.claimTask(task.id, 'instance-2');
+        if (claimed.lease?.holder !== 'instance-2' || claimed.assignedTo !== 'instance-2') {
+          throw new Error('Released task was not claimed by the new instance');
+        }
+      });
+    });
+
+    await this.test('Task Manager - Rejected Transitions', async () => {
+      await this.withTaskManager(async (tm) => {
+        const task = await tm.createTask('Transition test', 'Moves through the state machine', ['test'], 'test-agent', { duplicatePolicy: 'off' });
+
+        await this.expectError('INVALID_TRANSITION', () => tm.updateTask(task.id, { status: 'completed' }, 'test-agent'));
+        await this.expectError('STATUS_RESERVED', () => tm.updateTask(task.id, { status: 'in_progress' }, 'test-agent'));
+        await this.expectError('STATUS_RESERVED', () => tm.updateTask(task.id, { status: 'failed' }, 'test-agent'));
+
+        const cancelled = await tm.updateTask(task.id, { status: 'cancelled' }, 'test-agent');
+        await this.expectError('INVALID_TRANSITION', () => tm.claimTask(cancelled.id, 'instance-1'));
+      });
+    });
+    
     await this.test('Recovery System - Agent Restart', async () => {
       const recovery = new RecoverySystem();
       await recovery.initialize();
@@ -193,6 +340,37 @@ class SystemTester {
     });
   }
 
+  // Task tests run against the shared context; retrieval is not needed
+  private async withTaskManager(fn: (tm: TaskManager) => Promise<void>): Promise<void> {
+    const cm = new ContextManager();
+    const rag = {
+      store: async () => 'test-document',
+      query: async () => ({ documents: [], scores: [] })
+    } as unknown as RAGSystem;
+    const tm = new TaskManager(cm, rag);
+
+    await cm.initialize();
+    await tm.initialize();
+    try {
+      await fn(tm);
+    } finally {
+      await tm.shutdown();
+      await cm.shutdown();
+    }
+  }
+
+  private async expectError(code: string, fn: () => Promise<unknown>): Promise<void> {
+    try {
+      await fn();
+    } catch (e) {
+      if (e instanceof CoordinationError && e.code === code) {
+        return;
+      }
+      throw new Error(`Expected ${code}, got: ${e instanceof Error ? e.message : e}`);
+    }
+    throw new Error(`Expected ${code}, but the call succeeded`);
+  }
+
   private displayResults(): void {
     console.log('\n' + '═'.repeat(60));
     console.log('TEST RESULTS');
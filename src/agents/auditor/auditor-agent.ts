@@ -1,5 +1,5 @@
 import { BaseAgent } from '../base-agent.js';
-import { Task } from '../../types/index.js';
+import { Task } from '../../types/tasks.js';
 import { logger } from '../../utils/logger.js';
 import { watch } from 'chokidar';
 import { readFileSync } from 'fs';
@@ -23,7 +23,6 @@ interface CodeAnalysis {
 export class AuditorAgent extends BaseAgent {
   private fileWatcher?: any;
   private analyzedFiles: Set<string> = new Set();
-  private taskIdCounter = 0;
 
   protected async onInitialize(): Promise<void> {
     logger.info(`Auditor-${this.config.id}`, 'Initializing Auditor agent');
@@ -188,37 +187,27 @@ export class AuditorAgent extends BaseAgent {
     // Create tasks for critical issues
     const criticalIssues = analysis.issues.filter(i => i.type === 'error');
     if (criticalIssues.length > 0) {
-      tasks.push({
-        id: `task-${Date.now()}-${this.taskIdCounter++}`,
-        type: 'fix_errors',
+      tasks.push(await this.createTask({
+        title: `Fix errors in ${analysis.file}`,
         description: `Fix ${criticalIssues.length} errors in ${analysis.file}`,
-        priority: 9,
-        status: 'pending',
-        dependencies: [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      });
+        type: 'fix_errors',
+        tags: ['FIX'],
+        priority: 5,
+        assignedRole: 'implementer'
+      }));
     }
     
     // Create refactoring task if complexity is high
     if (analysis.complexity > 15) {
-      tasks.push({
-        id: `task-${Date.now()}-${this.taskIdCounter++}`,
-        type: 'refactor',
+      tasks.push(await this.createTask({
+        title: `Refactor ${analysis.file}`,
         description: `Refactor ${analysis.file} to reduce complexity (current: ${analysis.complexity})`,
-        priority: 6,
-        status: 'pending',
-        dependencies: criticalIssues.length > 0 ? [tasks[0].id] : [],
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      });
-    }
-    
-    // Add tasks to context
-    for (const task of tasks) {
-      await this.updateContext({
-        [`taskQueue.${task.id}`]: task
-      });
+        type: 'refactor',
+        tags: ['REFACTOR'],
+        priority: 3,
+        assignedRole: 'implementer',
+        dependencies: tasks.length > 0 ? [tasks[0].id] : []
+      }));
     }
     
     if (tasks.length > 0) {
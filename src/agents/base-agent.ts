@@ -2,7 +2,9 @@ import { EventEmitter } from 'events';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
 import { logger } from '../utils/logger.js';
-import { AgentInfo, AgentState, Task } from '../types/index.js';
+import { AgentInfo, AgentState } from '../types/index.js';
+import { Task } from '../types/tasks.js';
+import { parseTask } from '../coordination/task-records.js';
 import { config } from '../config/index.js';
 
 export interface AgentConfig {
@@ -26,6 +28,7 @@ export abstract class BaseAgent extends EventEmitter {
     totalTaskTime: 0
   };
   private heartbeatInterval?: NodeJS.Timeout;
+  private leaseRenewalInterval?: NodeJS.Timeout;
   private isShuttingDown = false;
 
   constructor(config: AgentConfig) {
@@ -65,9 +68,15 @@ export abstract class BaseAgent extends EventEmitter {
       capabilities: {}
     });
 
+    // The server claims and creates tasks on behalf of this agent
     const transport = new StdioClientTransport({
       command: 'tsx',
-      args: ['src/coordination/mcp-server.ts']
+      args: ['src/coordination/mcp-server-v2.ts'],
+      env: {
+        ...process.env as Record<string, string>,
+        CLAUDE_INSTANCE_ID: this.config.id,
+        CLAUDE_ROLE: this.config.type
+      }
     });
 
     await this.mcpClient.connect(transport);
@@ -103,11 +112,10 @@ export abstract class BaseAgent extends EventEmitter {
       }
     };
 
-    await this.mcpClient.callTool('update_context', {
+    await this.callTool('update_context', {
       updates: {
         [`agentStates.${this.config.id}`]: info
-      },
-      agentId: this.config.id
+      }
     });
   }
 
@@ -132,16 +140,22 @@ export abstract class BaseAgent extends EventEmitter {
     this.setState('working');
     
     const startTime = Date.now();
+    let claimed = false;
     
     try {
-      // Update task status
-      await this.updateTaskStatus(task.id, 'in_progress');
+      // Claim the task, which moves it to in_progress
+      this.currentTask = parseTask(await this.callTool('claim_task', { taskId: task.id }));
+      claimed = true;
+      this.startLeaseRenewal(this.currentTask);
       
       // Execute agent-specific task logic
-      const result = await this.onExecuteTask(task);
+      const result = await this.onExecuteTask(this.currentTask);
       
       // Update task completion
-      await this.updateTaskStatus(task.id, 'completed', result);
+      await this.callTool('complete_task', {
+        taskId: task.id,
+        results: this.toTaskResults(result)
+      });
       
       // Update metrics
       const taskTime = Date.now() - startTime;
@@ -152,45 +166,52 @@ export abstract class BaseAgent extends EventEmitter {
     } catch (error) {
       logger.error(`Agent-${this.config.id}`, `Failed to execute task ${task.id}`, error);
       
-      // Update task failure
-      await this.updateTaskStatus(task.id, 'failed', undefined, error instanceof Error ? error.message : 'Unknown error');
+      // Report the failed attempt; the task's retry policy decides what's next
+      if (claimed) {
+        await this.callTool('fail_task', {
+          taskId: task.id,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
       
       // Update metrics
       this.metrics.tasksFailed++;
       
       throw error;
     } finally {
+      this.stopLeaseRenewal();
       this.currentTask = undefined;
       this.setState('idle');
     }
   }
 
-  protected async updateTaskStatus(
-    taskId: string, 
-    status: 'in_progress' | 'completed' | 'failed',
-    result?: any,
-    error?: string
-  ): Promise<void> {
-    if (!this.mcpClient) return;
-
-    const updates: any = {
-      [`tasks.${taskId}.status`]: status,
-      [`tasks.${taskId}.updatedAt`]: new Date().toISOString()
-    };
+  // Renews the claim a third of the way into each lease, so a task that runs
+  // long is not returned to the queue while still being worked on
+  private startLeaseRenewal(task: Task): void {
+    if (!task.lease) return;
 
-    if (status === 'completed') {
-      updates[`tasks.${taskId}.completedAt`] = new Date().toISOString();
-      if (result !== undefined) {
-        updates[`tasks.${taskId}.result`] = result;
+    const leaseLength = Date.parse(task.lease.expiresAt) - Date.parse(task.lease.renewedAt);
+    this.leaseRenewalInterval = setInterval(async () => {
+      try {
+        await this.callTool('renew_claim', { taskId: task.id });
+      } catch (error) {
+        logger.warn(`Agent-${this.config.id}`, `Failed to renew claim on task ${task.id}`, error);
       }
-    } else if (status === 'failed' && error) {
-      updates[`tasks.${taskId}.error`] = error;
+    }, Math.max(leaseLength / 3, 1000));
+  }
+
+  private stopLeaseRenewal(): void {
+    if (this.leaseRenewalInterval) {
+      clearInterval(this.leaseRenewalInterval);
+      this.leaseRenewalInterval = undefined;
     }
+  }
 
-    await this.mcpClient.callTool('update_context', {
-      updates,
-      agentId: this.config.id
-    });
+  // Agents return free-form results; they are kept as task metrics
+  private toTaskResults(result: any): Task['results'] {
+    if (result === undefined || result === null) return undefined;
+    const isRecord = typeof result === 'object' && !Array.isArray(result);
+    return { metrics: isRecord ? result : { result } };
   }
 
   async shutdown(): Promise<void> {
@@ -204,6 +225,7 @@ export abstract class BaseAgent extends EventEmitter {
       if (this.heartbeatInterval) {
         clearInterval(this.heartbeatInterval);
       }
+      this.stopLeaseRenewal();
 
       // Set state to offline
       this.setState('offline');
@@ -230,10 +252,21 @@ export abstract class BaseAgent extends EventEmitter {
   protected abstract onShutdown(): Promise<void>;
 
   // Helper methods for agents
-  protected async storeInRAG(content: string, metadata: Record<string, any>): Promise<void> {
+  protected async callTool(name: string, args: Record<string, any>): Promise<any> {
     if (!this.mcpClient) throw new Error('MCP client not connected');
 
-    await this.mcpClient.callTool('rag_store', {
+    const result = await this.mcpClient.callTool({ name, arguments: args });
+    const text = (result.content as Array<{ type: string; text?: string }>)[0]?.text ?? '';
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text; // Some tools answer with a plain message
+    }
+  }
+
+  protected async storeInRAG(content: string, metadata: Record<string, any>): Promise<void> {
+    await this.callTool('rag_store', {
       content,
       metadata: {
         ...metadata,
@@ -244,35 +277,38 @@ export abstract class BaseAgent extends EventEmitter {
   }
 
   protected async queryRAG(query: string, maxResults: number = 10): Promise<any> {
-    if (!this.mcpClient) throw new Error('MCP client not connected');
-
-    const result = await this.mcpClient.callTool('rag_query', {
+    return this.callTool('rag_query', {
       query,
       maxResults
     });
-
-    return JSON.parse(result.content[0].text);
   }
 
   protected async getContext(keys?: string[]): Promise<any> {
-    if (!this.mcpClient) throw new Error('MCP client not connected');
-
-    const result = await this.mcpClient.callTool('get_context', {
-      keys
+    return this.callTool('get_context', {
+      paths: keys
     });
-
-    return JSON.parse(result.content[0].text);
   }
 
-  protected async updateContext(updates: Record<string, any>): Promise<void> {
-    if (!this.mcpClient) throw new Error('MCP client not connected');
-
-    await this.mcpClient.callTool('update_context', {
+  // `ttl` is in seconds; without it the values stay until overwritten
+  protected async updateContext(updates: Record<string, any>, ttl?: number): Promise<void> {
+    await this.callTool('update_context', {
       updates,
-      agentId: this.config.id
+      ttl
     });
   }
 
+  protected async createTask(task: {
+    title: string;
+    description: string;
+    type?: string;
+    tags: string[];
+    priority?: Task['priority'];
+    assignedRole?: Task['assignedRole'];
+    dependencies?: string[];
+  }): Promise<Task> {
+    return parseTask(await this.callTool('create_task', task));
+  }
+
   // Public getters
   getId(): string {
     return this.config.id;
@@ -1,5 +1,5 @@
 import { BaseAgent } from '../base-agent.js';
-import { Task } from '../../types/index.js';
+import { Task } from '../../types/tasks.js';
 import { logger } from '../../utils/logger.js';
 import { WorktreeManager } from '../../coordination/worktree-manager.js';
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
@@ -106,8 +106,8 @@ export class ImplementerAgent extends BaseAgent {
     logger.info(`Implementer-${this.config.id}`, 'Fixing errors', task);
     
     // Get error details from context or task metadata
-    const context = await this.getContext(['globalState.lastAnalysis']);
-    const errors = context?.globalState?.lastAnalysis?.errors || [];
+    const context = await this.getContext(['lastAnalysis.errors']);
+    const errors = context?.['lastAnalysis.errors'] || [];
     
     const fixes = [];
     for (const error of errors) {
@@ -132,7 +132,7 @@ export class ImplementerAgent extends BaseAgent {
     logger.info(`Implementer-${this.config.id}`, 'Refactoring code', task);
     
     // Get refactoring targets from task or context
-    const targets = task.result?.targets || [];
+    const targets = task.results?.metrics?.targets || [];
     
     const refactorings = [];
     for (const target of targets) {
@@ -161,7 +161,7 @@ export class ImplementerAgent extends BaseAgent {
     logger.info(`Implementer-${this.config.id}`, 'Creating tests', task);
     
     // Get test targets from task
-    const targets = task.result?.targets || [];
+    const targets = task.results?.metrics?.targets || [];
     
     const tests = [];
     for (const target of targets) {
@@ -1,10 +1,11 @@
 import { BaseAgent } from '../base-agent.js';
-import { Task } from '../../types/index.js';
+import { Task } from '../../types/tasks.js';
 import { logger } from '../../utils/logger.js';
 import { spawn } from 'child_process';
 import { promisify } from 'util';
 
 const execAsync = promisify(spawn);
+const VALIDATION_RESULT_TTL = 24 * 60 * 60; // Seconds
 
 interface ValidationResult {
   passed: boolean;
@@ -39,8 +40,8 @@ export class ValidatorAgent extends BaseAgent {
     logger.info(`Validator-${this.config.id}`, 'Initializing Validator agent');
     
     // Load validation rules and thresholds from config
-    const context = await this.getContext(['globalState.validationRules']);
-    if (context?.globalState?.validationRules) {
+    const context = await this.getContext(['validationRules']);
+    if (context?.validationRules) {
       logger.info(`Validator-${this.config.id}`, 'Loaded validation rules from context');
     }
   }
@@ -120,10 +121,10 @@ export class ValidatorAgent extends BaseAgent {
         }
       );
       
-      // Update task with validation result
+      // Keep the result in our namespace for a day
       await this.updateContext({
-        [`validationResults.${task.id}`]: result
-      });
+        [`agents.${this.config.id}.validationResults.${task.id}`]: result
+      }, VALIDATION_RESULT_TTL);
       
     } catch (error) {
       logger.error(`Validator-${this.config.id}`, 'Validation failed', error);
@@ -299,7 +300,7 @@ export class ValidatorAgent extends BaseAgent {
     logger.info(`Validator-${this.config.id}`, 'Validating pull request');
     
     // Get all changes in the PR
-    const changes = task.result?.changes || [];
+    const changes = task.results?.metrics?.changes || [];
     
     // Run validation on each changed file
     const validationResults = [];
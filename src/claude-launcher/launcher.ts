@@ -1,6 +1,7 @@
 import { spawn, ChildProcess } from 'child_process';
 import { getRoleConfig, RoleConfig } from '../types/roles.js';
 import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 
@@ -78,6 +79,7 @@ ${roleConfig.prompts.initialization}
 - Role: ${roleName}
 - Task Check Interval: ${roleConfig.checkInterval} seconds
 - Max Concurrent Tasks: ${roleConfig.maxConcurrentTasks}
+- Claim Lease: ${roleConfig.taskTimeout ?? config.tasks.defaultLeaseTimeout} minutes
 
 ## Available MCP Tools
 ${roleConfig.tools.map(tool => `- ${tool}`).join('\n')}
@@ -98,14 +100,19 @@ ${roleConfig.rules.map(rule => `- ${rule}`).join('\n')}
 ${roleConfig.constraints.map(constraint => `- ${constraint}`).join('\n')}
 
 ## Getting Started
-1. Use 'get_tasks' to see available tasks matching your role
-2. Use 'claim_task' to assign a task to yourself
-3. Work on the task following the guidelines above
+1. Use 'claim_next_task' to pick and claim the best task for your role
+2. Work on the task following the guidelines above
+3. Use 'renew_claim' regularly while you work; a claim that is not renewed expires and the task goes back to the queue
 4. Use 'update_task' to track progress
-5. Use 'complete_task' when done
+5. Use 'complete_task' when done, or 'fail_task' if you cannot finish it
 6. Use 'create_task' to create follow-up tasks for other roles
 
-Start by checking for available tasks with:
+Start by claiming a task with:
+\`\`\`
+claim_next_task({})
+\`\`\`
+
+To look around first, 'get_tasks' lists the tasks matching your role:
 \`\`\`
 get_tasks({
   tags: ${JSON.stringify(roleConfig.watchTags)},
@@ -7,12 +7,23 @@ const ConfigSchema = z.object({
   server: z.object({
     name: z.string().default('autonomous-mcp-system'),
     version: z.string().default('1.0.0'),
-    port: z.number().default(3000)
+    port: z.number().default(3000),
+    notificationDebounce: z.number().default(500) // Coalesces resource update notifications per subscription (ms)
   }),
   context: z.object({
+    storage: z.enum(['json', 'sqlite']).default('json'),
     filePath: z.string().default('.mcp-context.json'),
+    sqlitePath: z.string().default('.mcp-context.db'),
     updateInterval: z.number().default(5000), // 5 seconds
-    backupEnabled: z.boolean().default(true)
+    backupEnabled: z.boolean().default(true),
+    lockTimeout: z.number().default(5000), // 5 seconds
+    lockStaleAfter: z.number().default(30000), // 30 seconds
+    transactionMaxAttempts: z.number().default(5), // Tries before a conflicting transaction gives up
+    watchInterval: z.number().default(1000), // How often to check for writes by other processes
+    snapshotEvery: z.number().default(100), // Versions between history snapshots
+    snapshotRetention: z.number().default(20), // Snapshots kept, oldest are deleted first along with the log before them
+    sweepInterval: z.number().default(60000), // How often values past their TTL are deleted
+    sizeWarning: z.number().default(5 * 1024 * 1024) // Context size in bytes the monitor warns about
   }),
   rag: z.object({
     collectionName: z.string().default('mcp_knowledge'),
@@ -20,6 +31,35 @@ const ConfigSchema = z.object({
     maxResults: z.number().default(10),
     similarityThreshold: z.number().default(0.7)
   }),
+  tasks: z.object({
+    defaultLeaseTimeout: z.number().default(30), // Minutes, used when the role sets no taskTimeout
+    leaseSweepInterval: z.number().default(30000), // 30 seconds
+    scheduleInterval: z.number().default(60000), // How often the MCP server checks for due schedules
+    schedulingPolicy: z.enum(['strict', 'aging', 'weighted-round-robin']).default('strict'),
+    agingRate: z.number().default(0.1), // Priority points gained per hour of waiting
+    tagWeights: z.record(z.string(), z.number()).default({}), // Share per tag for weighted-round-robin
+    duplicatePolicy: z.enum(['off', 'reject', 'merge', 'link']).default('link'),
+    cancelCascade: z.enum(['block', 'cancel']).default('block'), // What cancelling a task does to its dependents
+    duplicateThreshold: z.number().default(0.85), // RAG similarity above which open tasks count as duplicates
+    templatesDirectory: z.string().default('./task-templates'),
+    retry: z.object({
+      maxAttempts: z.number().default(3),
+      backoff: z.enum(['fixed', 'exponential']).default('exponential'),
+      baseDelay: z.number().default(60), // Seconds
+      maxDelay: z.number().default(3600) // Seconds
+    }),
+    tagRetryPolicies: z.record(z.string(), z.object({
+      maxAttempts: z.number(),
+      backoff: z.enum(['fixed', 'exponential']).optional(),
+      baseDelay: z.number().optional()
+    })).default({}) // First matching tag on a task overrides the default policy
+  }),
+  approval: z.object({
+    automationLevel: z.enum(['observer', 'assistant', 'semi-auto', 'full-auto']).default('assistant'),
+    criticalTags: z.array(z.string()).default(['SECURITY', 'DEPLOY', 'RELEASE']), // Tasks with these need sign-off below full-auto
+    criticalFiles: z.array(z.string()).default(['.env*', 'package.json', 'src/config/**', '.github/**']), // Edits count as config edits
+    priorityThreshold: z.number().default(4) // In assistant mode, tasks at or above this priority need sign-off
+  }),
   recovery: z.object({
     enabled: z.boolean().default(true),
     healthCheckInterval: z.number().default(10000), // 10 seconds
@@ -43,16 +83,59 @@ const ConfigSchema = z.object({
 
 export type Config = z.infer<typeof ConfigSchema>;
 
+// Parses "a, b,c" into ['a', 'b', 'c']
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// Parses "SECURITY=3,FEATURE=1" into { SECURITY: 3, FEATURE: 1 }
+function parseTagWeights(value: string): Record<string, number> {
+  return Object.fromEntries(
+    value.split(',')
+      .map(entry => entry.split('=').map(part => part.trim()))
+      .filter(([tag, weight]) => tag && !isNaN(parseFloat(weight)))
+      .map(([tag, weight]) => [tag, parseFloat(weight)])
+  );
+}
+
+// Parses "TEST=1,SECURITY=5:fixed:300" (TAG=maxAttempts[:backoff[:baseDelaySeconds]])
+function parseTagRetryPolicies(value: string): Record<string, { maxAttempts: number; backoff?: 'fixed' | 'exponential'; baseDelay?: number }> {
+  return Object.fromEntries(
+    value.split(',')
+      .map(entry => entry.split('=').map(part => part.trim()))
+      .filter(([tag, policy]) => tag && policy && !isNaN(parseInt(policy)))
+      .map(([tag, policy]) => {
+        const [maxAttempts, backoff, baseDelay] = policy.split(':');
+        return [tag, {
+          maxAttempts: parseInt(maxAttempts),
+          backoff: backoff === 'fixed' || backoff === 'exponential' ? backoff : undefined,
+          baseDelay: baseDelay ? parseInt(baseDelay) : undefined
+        }];
+      })
+  );
+}
+
 export const config: Config = ConfigSchema.parse({
   server: {
     name: process.env.SERVER_NAME,
     version: process.env.SERVER_VERSION,
-    port: process.env.PORT ? parseInt(process.env.PORT) : undefined
+    port: process.env.PORT ? parseInt(process.env.PORT) : undefined,
+    notificationDebounce: process.env.SERVER_NOTIFICATION_DEBOUNCE ? parseInt(process.env.SERVER_NOTIFICATION_DEBOUNCE) : undefined
   },
   context: {
+    storage: process.env.CONTEXT_STORAGE as 'json' | 'sqlite' | undefined,
     filePath: process.env.CONTEXT_FILE_PATH,
+    sqlitePath: process.env.CONTEXT_SQLITE_PATH,
     updateInterval: process.env.CONTEXT_UPDATE_INTERVAL ? parseInt(process.env.CONTEXT_UPDATE_INTERVAL) : undefined,
-    backupEnabled: process.env.CONTEXT_BACKUP_ENABLED === 'true'
+    backupEnabled: process.env.CONTEXT_BACKUP_ENABLED === 'true',
+    lockTimeout: process.env.CONTEXT_LOCK_TIMEOUT ? parseInt(process.env.CONTEXT_LOCK_TIMEOUT) : undefined,
+    lockStaleAfter: process.env.CONTEXT_LOCK_STALE_AFTER ? parseInt(process.env.CONTEXT_LOCK_STALE_AFTER) : undefined,
+    transactionMaxAttempts: process.env.CONTEXT_TRANSACTION_MAX_ATTEMPTS ? parseInt(process.env.CONTEXT_TRANSACTION_MAX_ATTEMPTS) : undefined,
+    watchInterval: process.env.CONTEXT_WATCH_INTERVAL ? parseInt(process.env.CONTEXT_WATCH_INTERVAL) : undefined,
+    snapshotEvery: process.env.CONTEXT_SNAPSHOT_EVERY ? parseInt(process.env.CONTEXT_SNAPSHOT_EVERY) : undefined,
+    snapshotRetention: process.env.CONTEXT_SNAPSHOT_RETENTION ? parseInt(process.env.CONTEXT_SNAPSHOT_RETENTION) : undefined,
+    sweepInterval: process.env.CONTEXT_SWEEP_INTERVAL ? parseInt(process.env.CONTEXT_SWEEP_INTERVAL) : undefined,
+    sizeWarning: process.env.CONTEXT_SIZE_WARNING ? parseInt(process.env.CONTEXT_SIZE_WARNING) : undefined
   },
   rag: {
     collectionName: process.env.RAG_COLLECTION_NAME,
@@ -60,6 +143,31 @@ export const config: Config = ConfigSchema.parse({
     maxResults: process.env.RAG_MAX_RESULTS ? parseInt(process.env.RAG_MAX_RESULTS) : undefined,
     similarityThreshold: process.env.RAG_SIMILARITY_THRESHOLD ? parseFloat(process.env.RAG_SIMILARITY_THRESHOLD) : undefined
   },
+  tasks: {
+    defaultLeaseTimeout: process.env.TASK_DEFAULT_LEASE_TIMEOUT ? parseInt(process.env.TASK_DEFAULT_LEASE_TIMEOUT) : undefined,
+    leaseSweepInterval: process.env.TASK_LEASE_SWEEP_INTERVAL ? parseInt(process.env.TASK_LEASE_SWEEP_INTERVAL) : undefined,
+    scheduleInterval: process.env.TASK_SCHEDULE_INTERVAL ? parseInt(process.env.TASK_SCHEDULE_INTERVAL) : undefined,
+    schedulingPolicy: process.env.TASK_SCHEDULING_POLICY as any,
+    agingRate: process.env.TASK_AGING_RATE ? parseFloat(process.env.TASK_AGING_RATE) : undefined,
+    tagWeights: process.env.TASK_TAG_WEIGHTS ? parseTagWeights(process.env.TASK_TAG_WEIGHTS) : undefined,
+    duplicatePolicy: process.env.TASK_DUPLICATE_POLICY as any,
+    cancelCascade: process.env.TASK_CANCEL_CASCADE as any,
+    duplicateThreshold: process.env.TASK_DUPLICATE_THRESHOLD ? parseFloat(process.env.TASK_DUPLICATE_THRESHOLD) : undefined,
+    templatesDirectory: process.env.TASK_TEMPLATES_DIRECTORY,
+    retry: {
+      maxAttempts: process.env.TASK_RETRY_MAX_ATTEMPTS ? parseInt(process.env.TASK_RETRY_MAX_ATTEMPTS) : undefined,
+      backoff: process.env.TASK_RETRY_BACKOFF as any,
+      baseDelay: process.env.TASK_RETRY_BASE_DELAY ? parseInt(process.env.TASK_RETRY_BASE_DELAY) : undefined,
+      maxDelay: process.env.TASK_RETRY_MAX_DELAY ? parseInt(process.env.TASK_RETRY_MAX_DELAY) : undefined
+    },
+    tagRetryPolicies: process.env.TASK_TAG_RETRY_POLICIES ? parseTagRetryPolicies(process.env.TASK_TAG_RETRY_POLICIES) : undefined
+  },
+  approval: {
+    automationLevel: process.env.AUTOMATION_LEVEL as any,
+    criticalTags: process.env.APPROVAL_CRITICAL_TAGS ? parseList(process.env.APPROVAL_CRITICAL_TAGS) : undefined,
+    criticalFiles: process.env.APPROVAL_CRITICAL_FILES ? parseList(process.env.APPROVAL_CRITICAL_FILES) : undefined,
+    priorityThreshold: process.env.APPROVAL_PRIORITY_THRESHOLD ? parseInt(process.env.APPROVAL_PRIORITY_THRESHOLD) : undefined
+  },
   recovery: {
     enabled: process.env.RECOVERY_ENABLED !== 'false',
     healthCheckInterval: process.env.HEALTH_CHECK_INTERVAL ? parseInt(process.env.HEALTH_CHECK_INTERVAL) : undefined,
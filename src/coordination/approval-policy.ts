@@ -0,0 +1,78 @@
+import { Task, ApprovalAction } from '../types/tasks.js';
+import { config } from '../config/index.js';
+
+export type AutomationLevel = 'observer' | 'assistant' | 'semi-auto' | 'full-auto';
+
+export interface ApprovalPolicy {
+  level: AutomationLevel;
+  // Why a new task needs a human sign-off before it can be claimed, if it does
+  reviewTask(task: Task): string | undefined;
+  // Why an action needs a human sign-off before it is taken, if it does
+  reviewAction(action: Exclude<ApprovalAction, 'task'>, files?: string[]): string | undefined;
+}
+
+// Gates work according to the automation level chosen with `mcp-rag start --mode`:
+//   observer   every task and every action
+//   assistant  critical or high-priority tasks, and every action
+//   semi-auto  critical tasks, merges and config edits
+//   full-auto  nothing
+// Commits and merges that touch critical files count as config edits.
+export class AutomationLevelApprovalPolicy implements ApprovalPolicy {
+  constructor(
+    readonly level: AutomationLevel = config.approval.automationLevel,
+    private criticalTags: string[] = config.approval.criticalTags,
+    private criticalFiles: string[] = config.approval.criticalFiles,
+    private priorityThreshold: number = config.approval.priorityThreshold
+  ) {}
+
+  reviewTask(task: Task): string | undefined {
+    const criticalTag = task.tags.find(tag => this.criticalTags.includes(tag));
+
+    switch (this.level) {
+      case 'observer':
+        return 'Observer mode: every task needs approval';
+      case 'assistant':
+        if (criticalTag) return `Tagged ${criticalTag}`;
+        if (task.priority >= this.priorityThreshold) return `Priority ${task.priority} needs approval in assistant mode`;
+        return undefined;
+      case 'semi-auto':
+        return criticalTag ? `Tagged ${criticalTag}` : undefined;
+      case 'full-auto':
+        return undefined;
+    }
+  }
+
+  reviewAction(action: Exclude<ApprovalAction, 'task'>, files: string[] = []): string | undefined {
+    const critical = files.filter(file => this.isCriticalFile(file));
+    const effective = critical.length > 0 ? 'config_edit' : action;
+    const detail = critical.length > 0 ? ` (touches ${critical.join(', ')})` : '';
+
+    switch (this.level) {
+      case 'observer':
+      case 'assistant':
+        return `${this.level} mode: ${effective.replace('_', ' ')} needs approval${detail}`;
+      case 'semi-auto':
+        return effective === 'commit' ? undefined : `semi-auto mode: ${effective.replace('_', ' ')} needs approval${detail}`;
+      case 'full-auto':
+        return undefined;
+    }
+  }
+
+  private isCriticalFile(file: string): boolean {
+    const normalized = file.replace(/\\/g, '/').replace(/^\.\//, '');
+    return this.criticalFiles.some(pattern => globToRegExp(pattern).test(normalized));
+  }
+}
+
+export function createApprovalPolicy(level: AutomationLevel = config.approval.automationLevel): ApprovalPolicy {
+  return new AutomationLevelApprovalPolicy(level);
+}
+
+// Supports * (within a path segment) and ** (across segments)
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('**')
+    .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
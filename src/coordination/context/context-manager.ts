@@ -1,31 +1,127 @@
-import { readFileSync, writeFileSync, existsSync, renameSync } from 'fs';
 import { config } from '../../config/index.js';
 import { logger } from '../../utils/logger.js';
-import { SharedContext, SharedContextSchema } from '../../types/index.js';
+import { AgentInfoSchema, SharedContext, SharedContextSchema } from '../../types/index.js';
+import { RoleName } from '../../types/tasks.js';
+import {
+  PathDifference,
+  applyArrayOperation,
+  canSetPath,
+  deletePath,
+  diffPaths,
+  formatPath,
+  getPath,
+  isArrayOperation,
+  parsePath,
+  setPath
+} from '../../utils/object-path.js';
+import { ContextHistoryError, ContextSchemaVersionError, InvalidContextPathError, VersionConflict, VersionConflictError } from '../errors.js';
+import { parseTask, taskKey } from '../task-records.js';
+import { CURRENT_SCHEMA_VERSION, ContextMigrationReport, migrateContext } from './context-migrations.js';
+import { ContextSizeReport, ContextWriter, assertNamespaceAccess, measureContext } from './context-namespaces.js';
+import { ContextChange, ContextLogEntry, ContextSnapshotInfo, ContextStorage, createContextStorage } from './context-storage.js';
+import { AsyncLocalStorage } from 'async_hooks';
 import { EventEmitter } from 'events';
 
+// Context paths are dot paths or JSON Pointers. Paths starting with
+// `agentStates` address agent records, everything else lives in
+// `globalState` (an explicit `globalState.` prefix is allowed). Writing
+// null or undefined deletes, and `{ $append }` / `{ $removeById }` edit arrays.
+export interface ContextWriteExpectations {
+  // Version the whole context must still be at
+  expectedVersion?: number;
+  // Version each path must still be at; 0 means never written. Writes
+  // below or above a path count as changes to it.
+  expectedVersions?: Record<string, number>;
+}
+
+export interface ContextWriteOptions extends ContextWriteExpectations {
+  // Role of the writer, for role namespaces. Defaults to the type the
+  // agent registered with.
+  role?: RoleName;
+  // Seconds until the written globalState values are deleted. Writing a
+  // path again without a TTL keeps it for good.
+  ttl?: number;
+  // Set for writes made through the context tools, which may not touch the
+  // task manager's records
+  client?: boolean;
+}
+
+// Read-modify-write view handed to `ContextManager.transaction`. Reads see
+// the transaction's own writes; a null or undefined value deletes the path.
+export interface ContextTransaction {
+  readonly version: number;
+  get(key: string): any;
+  set(key: string, value: any): void;
+  delete(key: string): void;
+}
+
+// A point in the context's history: a version, or the latest version
+// written at or before a time
+export type ContextHistoryTarget = { version: number } | { timestamp: string };
+
+export interface ContextDiff {
+  from: number;
+  to: number;
+  changes: PathDifference[]; // Paths start with globalState or agentStates
+}
+
+interface ContextPath {
+  section: 'globalState' | 'agentStates';
+  segments: string[]; // Within the section
+  key: string; // Normalized path, as recorded in keyVersions
+}
+
+// Top-level context fields that are read as they are, not as paths
+const CONTEXT_FIELDS = ['version', 'lastUpdated'];
+
+// Writer recorded in the history for deletes of expired values
+const CONTEXT_SWEEPER = 'context-sweeper';
+
+// Records validated on every write that touches them
+const RECORD_PARSERS: Record<string, (value: unknown) => unknown> = {
+  'globalState.tasks': parseTask,
+  agentStates: value => AgentInfoSchema.parse(value)
+};
+
 export class ContextManager extends EventEmitter {
   private context: SharedContext;
-  private contextPath: string;
-  private backupPath: string;
-  private updateQueue: Array<{ updates: Record<string, any>; agentId: string }> = [];
+  // Set while some call in this process holds the lock
+  private lockHeld = false;
+  // Callers in this process queue here before taking the store's lock
+  private lockQueue: Promise<void> = Promise.resolve();
+  // The holder's token, visible only to its own async call chain, so nested
+  // calls reuse the lock and concurrent ones wait for it
+  private lockToken?: object;
+  private lockOwner = new AsyncLocalStorage<object>();
+  private updateQueue: Array<{ updates: Record<string, any>; agentId: string; ttl?: number }> = [];
   private isProcessing = false;
   private lastUpdate: number = Date.now();
+  // Entries changed since the last save, for stores that write them one by one
+  private changes = new Map<string, ContextChange>();
+  // Change log entries for the updates applied since the last save
+  private pendingLog: ContextLogEntry[] = [];
+  // Store revision as of our last load or save, to spot other processes' writes
+  private revision?: string;
+  private updateTimer?: NodeJS.Timeout;
+  private watchTimer?: NodeJS.Timeout;
+  private sweepTimer?: NodeJS.Timeout;
+  private migration?: ContextMigrationReport;
+  // Until the stored context has been read, saving would overwrite it
+  private loaded = false;
 
-  constructor() {
+  constructor(private storage: ContextStorage = createContextStorage()) {
     super();
-    this.contextPath = config.context.filePath;
-    this.backupPath = `${this.contextPath}.backup`;
-    
     this.context = this.createEmptyContext();
   }
 
   private createEmptyContext(): SharedContext {
     return {
       version: 1,
-      taskQueue: [],
+      schemaVersion: CURRENT_SCHEMA_VERSION,
       agentStates: {},
       globalState: {},
+      keyVersions: {},
+      expiries: {},
       lastUpdated: new Date().toISOString()
     };
   }
@@ -33,30 +129,52 @@ export class ContextManager extends EventEmitter {
   async initialize(): Promise<void> {
     logger.info('ContextManager', 'Initializing context manager');
     
+    await this.storage.initialize();
+
     try {
-      if (existsSync(this.contextPath)) {
-        const data = readFileSync(this.contextPath, 'utf8');
-        const parsed = JSON.parse(data);
-        this.context = SharedContextSchema.parse(parsed);
-        logger.info('ContextManager', 'Loaded existing context', { version: this.context.version });
-      } else {
-        await this.saveContext();
-        logger.info('ContextManager', 'Created new context file');
-      }
+      // Held so two processes starting together neither migrate nor create
+      // the context over each other's writes
+      await this.storage.withLock(async () => {
+        const stored = await this.storage.load();
+        if (stored !== undefined) {
+          this.migration = this.parseContext(stored);
+          this.revision = await this.storage.revision();
+          if (this.migration.applied.length > 0) {
+            await this.saveContext(true);
+          }
+          logger.info('ContextManager', 'Loaded existing context', { version: this.context.version, storage: this.storage.kind });
+        } else {
+          await this.saveContext(true);
+          logger.info('ContextManager', 'Created new context', { storage: this.storage.kind });
+        }
+        // History starts from a snapshot
+        await this.takeSnapshot();
+      });
       
-      // Start the update processor
+      // Start the update processor and watch for other processes' writes
+      this.loaded = true;
       this.startUpdateProcessor();
+      this.startChangeWatcher();
+      this.startExpirySweeper();
     } catch (error) {
       logger.error('ContextManager', 'Failed to initialize context', error);
+      // The backup is no older, and rewriting it would lose what we don't understand
+      if (error instanceof ContextSchemaVersionError) {
+        throw error;
+      }
       
       // Try to recover from backup
-      if (existsSync(this.backupPath)) {
+      const backup = await this.storage.loadBackup?.().catch(() => undefined);
+      if (backup !== undefined) {
         logger.info('ContextManager', 'Attempting to recover from backup');
         try {
-          const backupData = readFileSync(this.backupPath, 'utf8');
-          this.context = SharedContextSchema.parse(JSON.parse(backupData));
-          await this.saveContext();
+          this.migration = this.parseContext(backup);
+          await this.storage.withLock(() => this.saveContext(true));
           logger.info('ContextManager', 'Recovered from backup successfully');
+          this.loaded = true;
+          this.startUpdateProcessor();
+          this.startChangeWatcher();
+          this.startExpirySweeper();
         } catch (backupError) {
           logger.error('ContextManager', 'Failed to recover from backup', backupError);
           throw new Error('Failed to initialize context manager');
@@ -68,76 +186,214 @@ export class ContextManager extends EventEmitter {
   }
 
   private startUpdateProcessor(): void {
-    setInterval(() => {
+    this.updateTimer = setInterval(() => {
       if (!this.isProcessing && this.updateQueue.length > 0) {
         this.processUpdateQueue();
       }
     }, 100); // Check every 100ms
   }
 
+  // Other processes write to the same store; pick their writes up so
+  // readers of this process see them and contextUpdated listeners hear them
+  private startChangeWatcher(): void {
+    this.watchTimer = setInterval(async () => {
+      if (this.lockHeld || this.isProcessing) {
+        return;
+      }
+
+      try {
+        const revision = await this.storage.revision();
+        if (revision === undefined || revision === this.revision || this.lockHeld) {
+          return;
+        }
+
+        const previousVersion = this.context.version;
+        await this.reload();
+        if (this.context.version !== previousVersion) {
+          logger.debug('ContextManager', 'Picked up context changes from another process', { version: this.context.version });
+          this.emit('contextUpdated', this.context);
+        }
+      } catch (error) {
+        logger.warn('ContextManager', 'Failed to check the context store for changes', error);
+      }
+    }, config.context.watchInterval);
+    this.watchTimer.unref();
+  }
+
+  private startExpirySweeper(): void {
+    this.sweepTimer = setInterval(() => {
+      this.sweepExpired().catch(error => logger.warn('ContextManager', 'Failed to sweep expired context values', error));
+    }, config.context.sweepInterval);
+    this.sweepTimer.unref();
+  }
+
+  // Deletes the values whose TTL has run out and returns their paths. Every
+  // process sweeps; whoever takes the lock first does the work.
+  async sweepExpired(now: number = Date.now()): Promise<string[]> {
+    const due = () => Object.keys(this.context.expiries).filter(key => Date.parse(this.context.expiries[key]) <= now);
+    if (due().length === 0) {
+      return [];
+    }
+
+    const expired = await this.withLock(async () => {
+      await this.flush();
+      const keys = due();
+      if (keys.length > 0) {
+        this.applyUpdate(Object.fromEntries(keys.map(key => [key, null])), CONTEXT_SWEEPER);
+        await this.saveContext();
+      }
+      return keys;
+    });
+
+    if (expired.length > 0) {
+      logger.info('ContextManager', `Deleted ${expired.length} expired context value(s)`, { expired });
+      this.emit('contextUpdated', this.context);
+    }
+    return expired;
+  }
+
   private async processUpdateQueue(): Promise<void> {
     if (this.isProcessing || this.updateQueue.length === 0) {
       return;
     }
 
     this.isProcessing = true;
-    const updates = [...this.updateQueue];
+
+    try {
+      // Apply on top of whatever other processes have written meanwhile
+      if (await this.withLock(() => this.applyQueuedUpdates())) {
+        this.updateApplied();
+      }
+    } catch (error) {
+      logger.error('ContextManager', 'Failed to process update queue', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  // Applies and saves the queued updates. The caller holds the lock; the
+  // queue is taken under it so a holder flushing its own writes and the
+  // processor waiting for the lock never apply the same updates twice.
+  private async applyQueuedUpdates(): Promise<boolean> {
+    const updates = this.updateQueue;
     this.updateQueue = [];
+    if (updates.length === 0) {
+      return false;
+    }
 
     try {
-      // Apply all updates
       for (const update of updates) {
-        this.applyUpdate(update.updates, update.agentId);
+        try {
+          this.applyUpdate(update.updates, update.agentId, update.ttl);
+        } catch (error) {
+          if (!(error instanceof InvalidContextPathError)) throw error;
+          // The context changed shape since it was queued, retrying won't help
+          logger.error('ContextManager', `Dropping update from ${update.agentId}`, error);
+        }
       }
 
-      // Save context
       await this.saveContext();
-      
-      // Check performance
-      const updateLatency = Date.now() - this.lastUpdate;
-      if (updateLatency > config.performance.contextSyncMaxLatency) {
-        logger.warn('ContextManager', `Update latency exceeded threshold: ${updateLatency}ms`);
-      }
-      
-      this.lastUpdate = Date.now();
-      
-      // Emit update event
-      this.emit('contextUpdated', this.context);
     } catch (error) {
-      logger.error('ContextManager', 'Failed to process update queue', error);
       // Re-add updates to queue for retry
       this.updateQueue.unshift(...updates);
-    } finally {
-      this.isProcessing = false;
+      throw error;
+    }
+    return true;
+  }
+
+  private updateApplied(): void {
+    // Check performance
+    const updateLatency = Date.now() - this.lastUpdate;
+    if (updateLatency > config.performance.contextSyncMaxLatency) {
+      logger.warn('ContextManager', `Update latency exceeded threshold: ${updateLatency}ms`);
     }
+
+    this.lastUpdate = Date.now();
+
+    // Emit update event
+    this.emit('contextUpdated', this.context);
   }
 
-  private applyUpdate(updates: Record<string, any>, agentId: string): void {
+  private applyUpdate(updates: Record<string, any>, agentId: string, ttl?: number): void {
     logger.debug('ContextManager', `Applying updates from agent ${agentId}`, updates);
+
+    // Check every path first so an update lands whole or not at all
+    const writes = Object.entries(updates).map(([key, value]) => {
+      const path = this.resolvePath(key);
+      assertWritable(this.context, path, value);
+      return { path, value };
+    });
     
     // Update version
     this.context.version++;
     
-    // Apply updates to globalState
-    for (const [key, value] of Object.entries(updates)) {
-      if (value === null || value === undefined) {
-        delete this.context.globalState[key];
-      } else {
-        this.context.globalState[key] = value;
-      }
-    }
-    
     // Update timestamp
     this.context.lastUpdated = new Date().toISOString();
     
+    // Apply updates, deletes included, stamping each path with the version
+    // that wrote it and logging the change
+    for (const { path, value } of writes) {
+      const oldValue = readPath(this.context, path);
+      writePath(this.context, path, value);
+      this.context.keyVersions[path.key] = this.context.version;
+      this.markChanged(path.section, path.segments[0], path.segments[1]);
+      this.markChanged('keyVersions', path.key);
+      this.setExpiry(path, value, ttl);
+      this.logChange(agentId, path.key, oldValue, readPath(this.context, path));
+    }
+    
     // Update agent heartbeat if it's an agent state update
     if (this.context.agentStates[agentId]) {
-      this.context.agentStates[agentId].lastHeartbeat = new Date().toISOString();
+      const oldValue = this.context.agentStates[agentId].lastHeartbeat;
+      this.context.agentStates[agentId].lastHeartbeat = this.context.lastUpdated;
+      this.markChanged('agentStates', agentId);
+      this.logChange(agentId, formatPath(['agentStates', agentId, 'lastHeartbeat']), oldValue, this.context.lastUpdated);
     }
   }
 
-  async updateContext(updates: Record<string, any>, agentId: string): Promise<void> {
-    this.updateQueue.push({ updates, agentId });
+  // A write replaces whatever expiry the path and everything inside it had
+  private setExpiry(path: ContextPath, value: any, ttl?: number): void {
+    if (path.section !== 'globalState') {
+      return;
+    }
+
+    for (const key of Object.keys(this.context.expiries)) {
+      if (key === path.key || key.startsWith(`${path.key}.`)) {
+        delete this.context.expiries[key];
+        this.markChanged('expiries', key);
+      }
+    }
+    if (ttl !== undefined && value !== null && value !== undefined) {
+      this.context.expiries[path.key] = new Date(Date.parse(this.context.lastUpdated) + ttl * 1000).toISOString();
+      this.markChanged('expiries', path.key);
+    }
+  }
+
+  private logChange(agentId: string, key: string, oldValue: unknown, newValue: unknown): void {
+    const entry: ContextLogEntry = { version: this.context.version, agentId, key, timestamp: this.context.lastUpdated };
+    if (oldValue !== undefined) entry.oldValue = structuredClone(oldValue);
+    if (newValue !== undefined) entry.newValue = structuredClone(newValue);
+    this.pendingLog.push(entry);
+  }
+
+  private markChanged(section: ContextChange['section'], key: string, item?: string): void {
+    if (item === undefined) {
+      this.changes.set(`${section}:${key}`, { section, key });
+    } else if (!this.changes.has(`${section}:${key}`)) {
+      this.changes.set(`${section}:${key}:${item}`, { section, key, item });
+    }
+  }
+
+  // Without expectations writes are queued and the last writer wins. With
+  // them the write is checked and applied right away, see compareAndSet.
+  async updateContext(updates: Record<string, any>, agentId: string, options: ContextWriteOptions = {}): Promise<void> {
+    if (options.expectedVersion !== undefined || options.expectedVersions) {
+      await this.compareAndSet(updates, agentId, options);
+      return;
+    }
+
+    updates = this.validateUpdates(updates, this.writer(agentId, options), options.ttl);
+    this.updateQueue.push({ updates, agentId, ttl: options.ttl });
     
     // If update interval has passed, trigger immediate processing
     if (Date.now() - this.lastUpdate >= config.context.updateInterval) {
@@ -145,44 +401,461 @@ export class ContextManager extends EventEmitter {
     }
   }
 
+  // Applies `updates` only if the context, or each listed key, is still at
+  // the expected version, and returns the new context version. Otherwise
+  // nothing is written and a VersionConflictError carries the current values.
+  async compareAndSet(updates: Record<string, any>, agentId: string, options: ContextWriteOptions): Promise<number> {
+    await this.withLock(async () => {
+      // Queued writes from this process land first so the check sees them
+      await this.flush();
+      updates = this.validateUpdates(updates, this.writer(agentId, options), options.ttl);
+
+      const conflicts = this.findConflicts(options);
+      if (conflicts.length > 0) {
+        throw new VersionConflictError(conflicts, this.context.version);
+      }
+
+      this.applyUpdate(updates, agentId, options.ttl);
+      await this.saveContext();
+    });
+
+    this.emit('contextUpdated', this.context);
+    return this.context.version;
+  }
+
+  // Runs a read-modify-write closure against the latest context and commits
+  // its writes only if none of the keys it read or wrote changed meanwhile,
+  // retrying the closure on conflict. Closures may run more than once, so
+  // they should only touch the context through `tx`.
+  async transaction<T>(
+    agentId: string,
+    fn: (tx: ContextTransaction) => T | Promise<T>,
+    options: { maxAttempts?: number; role?: RoleName } = {}
+  ): Promise<T> {
+    const maxAttempts = options.maxAttempts ?? config.context.transactionMaxAttempts;
+
+    for (let attempt = 1; ; attempt++) {
+      await this.flush();
+      await this.reload();
+
+      // Writes go to a working copy so reads see them
+      const working = structuredClone({ agentStates: this.context.agentStates, globalState: this.context.globalState });
+      const observed: Record<string, number> = {};
+      const writes: Record<string, any> = {};
+      const observe = (key: string): ContextPath => {
+        const path = this.resolvePath(key);
+        if (!(path.key in observed)) observed[path.key] = this.pathVersion(path.key);
+        return path;
+      };
+      const write = (key: string, value: any) => {
+        const path = observe(key);
+        assertWritable(working, path, value);
+        writePath(working, path, value);
+        writes[path.key] = value;
+      };
+      const tx: ContextTransaction = {
+        version: this.context.version,
+        get: key => {
+          const value = readPath(working, observe(key));
+          return value === undefined ? undefined : structuredClone(value);
+        },
+        set: write,
+        delete: key => write(key, null)
+      };
+
+      const result = await fn(tx);
+      if (Object.keys(writes).length === 0) {
+        return result;
+      }
+
+      try {
+        await this.compareAndSet(writes, agentId, { expectedVersions: observed, role: options.role });
+        return result;
+      } catch (error) {
+        if (!(error instanceof VersionConflictError) || attempt >= maxAttempts) {
+          throw error;
+        }
+        logger.debug('ContextManager', `Transaction by ${agentId} conflicted, retrying (attempt ${attempt}/${maxAttempts})`);
+        await new Promise(resolve => setTimeout(resolve, Math.random() * 20 * attempt));
+      }
+    }
+  }
+
+  // Versions callers pass back as expectations: the context version and the
+  // version of each requested path, or of every path written so far
+  getVersions(keys?: string[]): { version: number; keys: Record<string, number> } {
+    const names = (keys && keys.length > 0 ? keys : Object.keys(this.context.keyVersions))
+      .filter(key => !CONTEXT_FIELDS.includes(key));
+    return {
+      version: this.context.version,
+      keys: Object.fromEntries(names.map(key => [key, this.pathVersion(this.resolvePath(key).key)]))
+    };
+  }
+
+  // Size of the stored context, by section, top-level key and namespace
+  getSizeReport(): ContextSizeReport {
+    return measureContext(this.context);
+  }
+
+  private writer(agentId: string, options: ContextWriteOptions): ContextWriter {
+    return { agentId, role: options.role ?? this.context.agentStates[agentId]?.type, client: options.client };
+  }
+
+  // Tasks and agent states are validated on the way in, whoever writes them
+  // and however deep. Whole records are replaced by their parsed form.
+  // Namespaces only take writes from their owner, and the task manager's
+  // records none from clients.
+  private validateUpdates(updates: Record<string, any>, writer: ContextWriter, ttl?: number): Record<string, any> {
+    const validated: Record<string, any> = {};
+
+    for (const [key, value] of Object.entries(updates)) {
+      validated[key] = value;
+      const path = this.resolvePath(key);
+      assertWritable(this.context, path, value);
+      if (path.section === 'globalState') {
+        assertNamespaceAccess(key, path.segments, writer);
+      }
+      const collection = path.section === 'agentStates' ? [] : path.segments.slice(0, 1);
+      const parse = RECORD_PARSERS[[path.section, ...collection].join('.')];
+      if (ttl !== undefined && (path.section !== 'globalState' || parse !== undefined)) {
+        throw new InvalidContextPathError(key, 'only plain globalState values can expire');
+      }
+      if (!parse) continue;
+
+      const [id, ...rest] = path.segments.slice(collection.length);
+      if (id === undefined) {
+        throw new InvalidContextPathError(key, 'records are written one at a time, by ID');
+      }
+      if (rest.length === 0) {
+        if (value !== null && value !== undefined && !isArrayOperation(value)) {
+          validated[key] = parse(value);
+        } else if (isArrayOperation(value)) {
+          throw new InvalidContextPathError(key, 'a record is not an array');
+        }
+        continue;
+      }
+
+      // Try a partial write on a copy of the record it changes
+      const record = getPath(this.context[path.section], [...collection, id]);
+      const candidate = { [path.section]: { record: record === undefined ? undefined : structuredClone(record) } };
+      const recordPath: ContextPath = { section: path.section, segments: ['record', ...rest], key };
+      assertWritable(candidate, recordPath, value);
+      writePath(candidate, recordPath, value);
+      parse(candidate[path.section].record);
+    }
+
+    return validated;
+  }
+
+  private resolvePath(key: string): ContextPath {
+    let segments: string[];
+    try {
+      segments = parsePath(key);
+    } catch (error) {
+      throw new InvalidContextPathError(key, (error as Error).message);
+    }
+
+    if (segments[0] === 'agentStates') {
+      return { section: 'agentStates', segments: segments.slice(1), key: formatPath(segments) };
+    }
+    if (segments[0] === 'globalState') {
+      segments = segments.slice(1);
+    }
+    return { section: 'globalState', segments, key: formatPath(segments) };
+  }
+
+  // Latest version that wrote the path, something inside it or something
+  // containing it
+  private pathVersion(key: string): number {
+    let version = 0;
+    for (const [written, writtenAt] of Object.entries(this.context.keyVersions)) {
+      const related = written === key || written.startsWith(`${key}.`) || key.startsWith(`${written}.`);
+      if (related && writtenAt > version) {
+        version = writtenAt;
+      }
+    }
+    return version;
+  }
+
+  private findConflicts(expectations: ContextWriteExpectations): VersionConflict[] {
+    const conflicts: VersionConflict[] = [];
+
+    if (expectations.expectedVersion !== undefined && expectations.expectedVersion !== this.context.version) {
+      conflicts.push({ expectedVersion: expectations.expectedVersion, currentVersion: this.context.version });
+    }
+
+    for (const [key, expectedVersion] of Object.entries(expectations.expectedVersions || {})) {
+      const path = this.resolvePath(key);
+      const currentVersion = this.pathVersion(path.key);
+      if (currentVersion !== expectedVersion) {
+        conflicts.push({ key, expectedVersion, currentVersion, currentValue: readPath(this.context, path) });
+      }
+    }
+
+    return conflicts;
+  }
+
+  // Writes queued updates now instead of waiting for the next processor tick
+  async flush(): Promise<void> {
+    // The processor may be waiting for the lock we hold, so do its work here
+    if (this.holdsLock()) {
+      if (await this.applyQueuedUpdates()) {
+        this.updateApplied();
+      }
+      return;
+    }
+
+    while (this.isProcessing) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    await this.processUpdateQueue();
+  }
+
+  // Runs `fn` holding the cross-process context lock, starting from the
+  // latest stored context. Calls made from within `fn` reuse the lock; other
+  // callers in this process wait their turn, as other processes do.
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.holdsLock()) {
+      return fn();
+    }
+
+    const previous = this.lockQueue;
+    let release!: () => void;
+    this.lockQueue = new Promise(resolve => release = resolve);
+
+    try {
+      await previous;
+      return await this.storage.withLock(async () => {
+        const token = {};
+        this.lockToken = token;
+        this.lockHeld = true;
+        try {
+          return await this.lockOwner.run(token, async () => {
+            await this.reload();
+            return fn();
+          });
+        } finally {
+          this.lockHeld = false;
+          this.lockToken = undefined;
+        }
+      });
+    } finally {
+      release();
+    }
+  }
+
+  // Async context outlives the call (timers, listeners), so the token has to
+  // be the current one as well
+  private holdsLock(): boolean {
+    return this.lockToken !== undefined && this.lockOwner.getStore() === this.lockToken;
+  }
+
+  private async reload(): Promise<void> {
+    try {
+      const revision = await this.storage.revision();
+      const stored = await this.storage.load();
+      if (stored === undefined) {
+        return;
+      }
+      this.parseContext(stored);
+      this.revision = revision;
+      // Anything applied but not saved is gone, and so are its log entries
+      this.pendingLog = [];
+    } catch (error) {
+      logger.warn('ContextManager', 'Failed to reload context from the store, keeping in-memory copy', error);
+    }
+  }
+
+  // Validates a context read from the store, first migrating it from the
+  // schema version it was written in
+  private parseContext(raw: any): ContextMigrationReport {
+    const report = migrateContext(raw);
+    this.context = SharedContextSchema.parse(raw);
+
+    for (const { version, description, changes, warnings } of report.applied) {
+      logger.info('ContextManager', `Migrated the context to schema version ${version}: ${description}`, { changes });
+      if (warnings.length > 0) {
+        logger.warn('ContextManager', `Schema version ${version} migration left some entries alone`, { warnings });
+      }
+    }
+    return report;
+  }
+
+  // Schema migrations run when the context was loaded, if any
+  getMigrationReport(): ContextMigrationReport | undefined {
+    return this.migration;
+  }
+
   async getContext(keys?: string[]): Promise<Partial<SharedContext> | any> {
+    return this.select(this.context, keys);
+  }
+
+  // The context as it was at an earlier version or time, rebuilt from the
+  // nearest snapshot before it and the change log
+  async getContextAt(target: ContextHistoryTarget, keys?: string[]): Promise<Partial<SharedContext> | any> {
+    return this.select(await this.rebuild(target), keys);
+  }
+
+  // What changed between two versions, path by path
+  async diff(from: number, to: number): Promise<ContextDiff> {
+    const [before, after] = [await this.rebuild({ version: from }), await this.rebuild({ version: to })];
+    return {
+      from,
+      to,
+      changes: diffPaths(
+        { agentStates: before.agentStates, globalState: before.globalState },
+        { agentStates: after.agentStates, globalState: after.globalState }
+      )
+    };
+  }
+
+  async listSnapshots(): Promise<ContextSnapshotInfo[]> {
+    return this.storage.listSnapshots();
+  }
+
+  // Rolls the context back to how it was at `version`. The rollback is a new
+  // version like any other update, so it is logged, other processes pick it
+  // up, and it can be rolled back in turn. Returns the new version.
+  async restore(version: number, restoredBy: string): Promise<{ version: number; changed: string[] }> {
+    const target = await this.rebuild({ version });
+
+    const result = await this.withLock(async () => {
+      await this.flush();
+
+      const updates: Record<string, any> = {};
+      for (const section of ['globalState', 'agentStates'] as const) {
+        const keys = new Set([...Object.keys(target[section]), ...Object.keys(this.context[section])]);
+        for (const key of keys) {
+          if (JSON.stringify(target[section][key]) !== JSON.stringify(this.context[section][key])) {
+            updates[formatPath([section, key])] = target[section][key] ?? null;
+          }
+        }
+      }
+
+      const changed = Object.keys(updates);
+      if (changed.length > 0) {
+        this.applyUpdate(updates, restoredBy);
+        await this.saveContext();
+        await this.takeSnapshot(true);
+      }
+      return { version: this.context.version, changed };
+    });
+
+    logger.info('ContextManager', `Restored the context to version ${version}`, { restoredBy, ...result });
+    if (result.changed.length > 0) {
+      this.emit('contextUpdated', this.context);
+    }
+    return result;
+  }
+
+  private select(context: SharedContext, keys?: string[]): Partial<SharedContext> | any {
     if (!keys || keys.length === 0) {
-      return this.context;
+      return context;
     }
 
     const result: Record<string, any> = {};
     
     for (const key of keys) {
-      if (key === 'version') result.version = this.context.version;
-      else if (key === 'currentTask') result.currentTask = this.context.currentTask;
-      else if (key === 'taskQueue') result.taskQueue = this.context.taskQueue;
-      else if (key === 'agentStates') result.agentStates = this.context.agentStates;
-      else if (key === 'lastUpdated') result.lastUpdated = this.context.lastUpdated;
-      else if (key.startsWith('globalState.')) {
-        const globalKey = key.substring('globalState.'.length);
-        result[key] = this.context.globalState[globalKey];
-      }
+      if (key === 'version') result.version = context.version;
+      else if (key === 'lastUpdated') result.lastUpdated = context.lastUpdated;
+      else result[key] = readPath(context, this.resolvePath(key));
     }
     
     return result;
   }
 
-  private async saveContext(): Promise<void> {
-    try {
-      // Create backup if enabled
-      if (config.context.backupEnabled && existsSync(this.contextPath)) {
-        renameSync(this.contextPath, this.backupPath);
-      }
-      
-      // Write atomically
-      const tempPath = `${this.contextPath}.tmp`;
-      writeFileSync(tempPath, JSON.stringify(this.context, null, 2), 'utf8');
-      renameSync(tempPath, this.contextPath);
-      
-      logger.debug('ContextManager', 'Context saved', { version: this.context.version });
-    } catch (error) {
-      logger.error('ContextManager', 'Failed to save context', error);
-      throw error;
+  private async rebuild(target: ContextHistoryTarget): Promise<SharedContext> {
+    await this.flush();
+    const snapshots = await this.storage.listSnapshots();
+    const version = 'version' in target ? target.version : await this.versionAt(target.timestamp, snapshots);
+
+    if (version > this.context.version) {
+      throw new ContextHistoryError(version, `the context is only at version ${this.context.version}`);
+    }
+    if (version === this.context.version) {
+      return structuredClone(this.context);
+    }
+
+    const base = [...snapshots].reverse().find(snapshot => snapshot.version <= version);
+    const snapshot = base && await this.storage.loadSnapshot(base.version);
+    if (!snapshot) {
+      throw new ContextHistoryError(version, snapshots.length > 0
+        ? `the oldest snapshot is version ${snapshots[0].version}`
+        : 'no snapshots have been taken');
+    }
+
+    const raw: any = structuredClone(snapshot.context);
+    raw.keyVersions = raw.keyVersions || {};
+    for (const entry of await this.storage.readLog(snapshot.version, version)) {
+      const path = this.resolvePath(entry.key);
+      writePath(raw, path, entry.newValue ?? null);
+      raw.keyVersions[path.key] = entry.version;
+      raw.lastUpdated = entry.timestamp;
+    }
+    raw.version = version;
+
+    // Snapshots keep the schema the context had when they were taken
+    migrateContext(raw);
+    return SharedContextSchema.parse(raw);
+  }
+
+  // Latest version written at or before a time
+  private async versionAt(timestamp: string, snapshots: ContextSnapshotInfo[]): Promise<number> {
+    const time = Date.parse(timestamp);
+    if (Number.isNaN(time)) {
+      throw new ContextHistoryError(timestamp, 'not a valid time');
+    }
+
+    const base = [...snapshots].reverse().find(snapshot => Date.parse(snapshot.timestamp) <= time);
+    if (!base) {
+      throw new ContextHistoryError(timestamp, 'it is older than every snapshot');
+    }
+
+    const entries = await this.storage.readLog(base.version, this.context.version);
+    const last = [...entries].reverse().find(entry => Date.parse(entry.timestamp) <= time);
+    return last ? last.version : base.version;
+  }
+
+  // Stores the entries changed since the last save, or everything, and the
+  // change log for them
+  private async saveContext(everything = false): Promise<void> {
+    await this.storage.save(this.context, everything ? undefined : [...this.changes.values()]);
+    this.changes.clear();
+    this.revision = await this.storage.revision();
+
+    await this.storage.appendLog(this.pendingLog);
+    this.pendingLog = [];
+    // A full rewrite is a migration or recovery the log knows nothing about
+    await this.takeSnapshot(everything);
+  }
+
+  // Snapshots every `snapshotEvery` versions, keeping the newest `snapshotRetention`
+  private async takeSnapshot(force = false): Promise<void> {
+    const snapshots = await this.storage.listSnapshots();
+    const latest = snapshots[snapshots.length - 1];
+    if (!force && latest && this.context.version - latest.version < config.context.snapshotEvery) {
+      return;
+    }
+
+    await this.storage.saveSnapshot({
+      version: this.context.version,
+      timestamp: new Date().toISOString(),
+      context: structuredClone(this.context)
+    });
+    logger.debug('ContextManager', `Took a context snapshot at version ${this.context.version}`);
+
+    const stale = snapshots
+      .filter(snapshot => snapshot.version !== this.context.version)
+      .slice(0, Math.max(0, snapshots.length + 1 - Math.max(1, config.context.snapshotRetention)));
+    for (const snapshot of stale) {
+      await this.storage.deleteSnapshot(snapshot.version);
+    }
+
+    // History is rebuilt from a snapshot forward, so the log before the
+    // oldest one left can never be replayed
+    if (stale.length > 0) {
+      const oldest = snapshots.find(snapshot => !stale.includes(snapshot)) || { version: this.context.version };
+      await this.storage.pruneLog(oldest.version);
     }
   }
 
@@ -194,16 +867,24 @@ export class ContextManager extends EventEmitter {
       await this.processUpdateQueue();
     }
     
+    clearInterval(this.updateTimer);
+    clearInterval(this.watchTimer);
+    clearInterval(this.sweepTimer);
+
     // Final save
-    await this.saveContext();
+    if (this.loaded) {
+      await this.withLock(() => this.saveContext());
+    }
+    await this.storage.close();
     
     this.removeAllListeners();
   }
 
   // Helper methods for specific context operations
-  async addTask(task: any): Promise<void> {
+  async addTask(task: unknown): Promise<void> {
+    const parsed = parseTask(task);
     await this.updateContext({
-      'taskQueue': [...this.context.taskQueue, task]
+      [taskKey(parsed.id)]: parsed
     }, 'system');
   }
 
@@ -212,10 +893,40 @@ export class ContextManager extends EventEmitter {
       [`agentStates.${agentId}`]: state
     }, agentId);
   }
+}
+type ContextSections = Pick<SharedContext, 'agentStates' | 'globalState'>;
 
-  async setCurrentTask(task: any): Promise<void> {
-    await this.updateContext({
-      'currentTask': task
-    }, 'system');
+function readPath(sections: ContextSections, path: ContextPath): any {
+  return getPath(sections[path.section], path.segments);
+}
+
+function assertWritable(sections: Record<string, any>, path: ContextPath, value: any): void {
+  if (path.segments.length === 0) {
+    throw new InvalidContextPathError(path.key || path.section, `cannot replace all of ${path.section}`);
+  }
+  if (value === null || value === undefined) {
+    return; // Deleting what is not there is a no-op
+  }
+  const section = sections[path.section];
+  if (!canSetPath(section, path.segments)) {
+    throw new InvalidContextPathError(path.key, 'something other than an object is in the way');
+  }
+  if (isArrayOperation(value)) {
+    const current = getPath(section, path.segments);
+    if (current !== undefined && current !== null && !Array.isArray(current)) {
+      throw new InvalidContextPathError(path.key, 'array operations need an array');
+    }
+  }
+}
+
+// Call assertWritable first
+function writePath(sections: Record<string, any>, path: ContextPath, value: any): void {
+  const section = sections[path.section];
+  if (value === null || value === undefined) {
+    deletePath(section, path.segments);
+  } else if (isArrayOperation(value)) {
+    setPath(section, path.segments, applyArrayOperation(getPath(section, path.segments), value));
+  } else {
+    setPath(section, path.segments, value);
   }
-}
\ No newline at end of file
+}
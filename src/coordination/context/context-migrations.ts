@@ -0,0 +1,117 @@
+import { AgentInfoSchema } from '../../types/index.js';
+import { PathDifference, diffPaths, foldFlattenedKeys } from '../../utils/object-path.js';
+import { ContextSchemaVersionError } from '../errors.js';
+import { migrateContextTasks } from '../task-records.js';
+
+// The stored context records the schema it was written in as
+// `schemaVersion`, separate from `version`, which counts mutations. On load
+// every migration newer than the stored schema runs in order, upgrading the
+// raw context in place before it is validated. A shape change ships as a new
+// migration at the end of the list, never as an edit to an old one.
+
+export interface ContextMigrationOutcome {
+  changes: string[]; // What the migration did, one line each
+  warnings: string[]; // What it had to leave alone
+}
+
+export interface ContextMigration {
+  version: number; // Schema version the migration upgrades to
+  description: string;
+  migrate(raw: any): ContextMigrationOutcome;
+}
+
+export interface ContextMigrationReport {
+  from: number;
+  to: number;
+  applied: Array<{ version: number; description: string } & ContextMigrationOutcome>;
+}
+
+export const CONTEXT_MIGRATIONS: ContextMigration[] = [
+  {
+    version: 1,
+    description: 'Fold keys written as flat dot paths into nested values',
+    migrate: raw => {
+      const { folded, unfolded } = foldContextKeys(raw);
+      return {
+        changes: folded.map(key => `Folded "${key}"`),
+        warnings: unfolded.map(key => `Left "${key}" flat, a nested value is in the way`)
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Upgrade legacy tasks to the task model under globalState.tasks',
+    migrate: raw => {
+      const { migrated, invalid } = migrateContextTasks(raw);
+      return {
+        changes: migrated.map(id => `Upgraded task ${id}`),
+        warnings: invalid.map(id => `Task ${id} matches no known task shape`)
+      };
+    }
+  },
+  {
+    version: 3,
+    description: 'Track when values written with a TTL expire',
+    migrate: raw => {
+      if (raw.expiries && typeof raw.expiries === 'object') {
+        return { changes: [], warnings: [] };
+      }
+      raw.expiries = {};
+      return { changes: ['Added expiries'], warnings: [] };
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = CONTEXT_MIGRATIONS[CONTEXT_MIGRATIONS.length - 1].version;
+
+// Upgrades a raw stored context in place to the current schema. Contexts
+// from before schema versions count as version 0.
+export function migrateContext(raw: any): ContextMigrationReport {
+  const from = typeof raw?.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (from > CURRENT_SCHEMA_VERSION) {
+    throw new ContextSchemaVersionError(from, CURRENT_SCHEMA_VERSION);
+  }
+
+  const report: ContextMigrationReport = { from, to: from, applied: [] };
+  if (!raw || typeof raw !== 'object') {
+    return report;
+  }
+
+  for (const migration of CONTEXT_MIGRATIONS.filter(migration => migration.version > from)) {
+    report.applied.push({ version: migration.version, description: migration.description, ...migration.migrate(raw) });
+    raw.schemaVersion = report.to = migration.version;
+  }
+  return report;
+}
+
+// What migrating would do to a stored context, leaving it untouched
+export function previewContextMigration(raw: unknown): ContextMigrationReport & { differences: PathDifference[] } {
+  const migrated = structuredClone(raw);
+  const report = migrateContext(migrated);
+  return { ...report, differences: diffPaths(raw, migrated) };
+}
+
+// Older versions stored every update key verbatim, so `tasks.<id>` and
+// `agentStates.<id>.state` became literal keys in globalState
+function foldContextKeys(raw: any): { folded: string[]; unfolded: string[] } {
+  if (!raw || typeof raw !== 'object' || !raw.globalState || typeof raw.globalState !== 'object') {
+    return { folded: [], unfolded: [] };
+  }
+
+  const { folded, conflicts } = foldFlattenedKeys(raw.globalState);
+  const agentStates = raw.globalState.agentStates;
+  if (folded.some(key => key.startsWith('agentStates.')) && agentStates && typeof agentStates === 'object') {
+    raw.agentStates = raw.agentStates && typeof raw.agentStates === 'object' ? raw.agentStates : {};
+    for (const [id, info] of Object.entries(agentStates)) {
+      // Partial states of agents that never registered are dropped, the
+      // next heartbeat writes them whole
+      const parsed = AgentInfoSchema.safeParse({ ...raw.agentStates[id], ...(info as object) });
+      if (parsed.success) {
+        raw.agentStates[id] = parsed.data;
+      }
+    }
+    delete raw.globalState.agentStates;
+  }
+
+  return { folded, unfolded: conflicts };
+}
@@ -0,0 +1,85 @@
+import { SharedContext } from '../../types/index.js';
+import { NamespaceAccessError } from '../errors.js';
+
+// Scratch space in globalState owned by one writer:
+//   agents.<agentId>.<key...>   written only by that agent
+//   roles.<role>.<key...>       written only by agents in that role
+// Everyone can read every namespace. Tasks, approvals and schedules belong
+// to the task manager; clients change them through the task tools, which
+// check transitions, claims and sign-offs, never by writing the context.
+
+export type NamespaceRoot = 'agents' | 'roles';
+
+export interface ContextWriter {
+  agentId: string;
+  role?: string;
+  client?: boolean; // Writing through the context tools
+}
+
+export interface ContextSizeReport {
+  totalBytes: number;
+  sections: Record<'globalState' | 'agentStates' | 'keyVersions' | 'expiries', number>;
+  largestKeys: Array<{ key: string; bytes: number }>; // Top-level globalState keys, biggest first
+  namespaces: Array<{ namespace: string; bytes: number; keys: number }>;
+  expiring: number; // Paths with a TTL
+}
+
+const NAMESPACE_ROOTS: NamespaceRoot[] = ['agents', 'roles'];
+const MANAGED_ROOTS = ['tasks', 'approvals', 'schedules'];
+const LARGEST_KEYS = 10;
+
+// Throws unless `writer` may write the globalState path `segments`
+export function assertNamespaceAccess(key: string, segments: string[], writer: ContextWriter): void {
+  if (writer.client && MANAGED_ROOTS.includes(segments[0])) {
+    throw new NamespaceAccessError(key, writer.agentId, `${segments[0]} are changed through the task tools`);
+  }
+
+  const root = segments[0] as NamespaceRoot;
+  if (!NAMESPACE_ROOTS.includes(root)) {
+    return;
+  }
+
+  const owner = segments[1];
+  if (owner === undefined) {
+    throw new NamespaceAccessError(key, writer.agentId, 'namespaces are written one owner at a time');
+  }
+  const allowed = root === 'agents' ? owner === writer.agentId : owner === writer.role;
+  if (!allowed) {
+    throw new NamespaceAccessError(key, writer.agentId, `only ${root === 'agents' ? `agent ${owner}` : `the ${owner} role`} writes here`);
+  }
+}
+
+// Serialized size of the context, overall and broken down by key and namespace
+export function measureContext(context: SharedContext): ContextSizeReport {
+  const globalState = context.globalState;
+
+  const namespaces = NAMESPACE_ROOTS.flatMap(root => {
+    const owners = globalState[root];
+    if (!owners || typeof owners !== 'object') return [];
+    return Object.entries(owners).map(([owner, value]) => ({
+      namespace: `${root}.${owner}`,
+      bytes: byteSize(value),
+      keys: value && typeof value === 'object' ? Object.keys(value).length : 1
+    }));
+  });
+
+  return {
+    totalBytes: byteSize(context),
+    sections: {
+      globalState: byteSize(globalState),
+      agentStates: byteSize(context.agentStates),
+      keyVersions: byteSize(context.keyVersions),
+      expiries: byteSize(context.expiries)
+    },
+    largestKeys: Object.entries(globalState)
+      .map(([key, value]) => ({ key, bytes: byteSize(value) }))
+      .sort((a, b) => b.bytes - a.bytes)
+      .slice(0, LARGEST_KEYS),
+    namespaces: namespaces.sort((a, b) => b.bytes - a.bytes),
+    expiring: Object.keys(context.expiries).length
+  };
+}
+
+function byteSize(value: unknown): number {
+  return value === undefined ? 0 : Buffer.byteLength(JSON.stringify(value), 'utf8');
+}
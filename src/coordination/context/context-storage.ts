@@ -0,0 +1,71 @@
+import { config } from '../../config/index.js';
+import { SharedContext } from '../../types/index.js';
+import { JsonContextStorage } from './json-context-storage.js';
+import { SqliteContextStorage } from './sqlite-context-storage.js';
+
+export type ContextStorageKind = 'json' | 'sqlite';
+
+// A top-level entry of the context that changed since the last save
+export interface ContextChange {
+  section: 'globalState' | 'agentStates' | 'keyVersions' | 'expiries';
+  key: string;
+  item?: string; // The one entry inside `key` that changed, when that is all
+}
+
+// One path written by one update, as kept in the append-only change log
+export interface ContextLogEntry {
+  version: number; // Context version the update produced
+  agentId: string;
+  key: string; // Normalized context path
+  oldValue?: unknown; // Unset when the path did not exist
+  newValue?: unknown; // Unset when the path was deleted
+  timestamp: string;
+}
+
+export interface ContextSnapshotInfo {
+  version: number;
+  timestamp: string;
+}
+
+export interface ContextSnapshot extends ContextSnapshotInfo {
+  context: SharedContext;
+}
+
+// Where the shared context lives. Every process (MCP servers, monitor,
+// recovery, CLI) opens the same store, so implementations must be safe
+// across processes: `withLock` excludes other writers and `revision` moves
+// whenever anyone writes.
+export interface ContextStorage {
+  readonly kind: ContextStorageKind;
+  initialize(): Promise<void>;
+  // The stored context, not yet validated, or undefined if there is none
+  load(): Promise<unknown | undefined>;
+  // Last good copy to recover from when the stored context is unreadable
+  loadBackup?(): Promise<unknown | undefined>;
+  // Stores the context. Backends that can write entries one by one only
+  // write `changes`; without them everything is rewritten.
+  save(context: SharedContext, changes?: ContextChange[]): Promise<void>;
+  withLock<T>(fn: () => Promise<T>): Promise<T>;
+  // Changes whenever another process writes; compare, don't parse
+  revision(): Promise<string | undefined>;
+  appendLog(entries: ContextLogEntry[]): Promise<void>;
+  // Entries for versions after `afterVersion`, up to and including `toVersion`, oldest first
+  readLog(afterVersion: number, toVersion: number): Promise<ContextLogEntry[]>;
+  // Drops the entries for versions up to and including `throughVersion`
+  pruneLog(throughVersion: number): Promise<void>;
+  saveSnapshot(snapshot: ContextSnapshot): Promise<void>;
+  // Oldest first
+  listSnapshots(): Promise<ContextSnapshotInfo[]>;
+  loadSnapshot(version: number): Promise<ContextSnapshot | undefined>;
+  deleteSnapshot(version: number): Promise<void>;
+  close(): Promise<void>;
+}
+
+export function createContextStorage(kind: ContextStorageKind = config.context.storage): ContextStorage {
+  switch (kind) {
+    case 'json':
+      return new JsonContextStorage();
+    case 'sqlite':
+      return new SqliteContextStorage();
+  }
+}
@@ -0,0 +1,171 @@
+import { readFileSync, writeFileSync, existsSync, renameSync, statSync, appendFileSync, mkdirSync, readdirSync, unlinkSync, createReadStream, createWriteStream } from 'fs';
+import { once } from 'events';
+import { createInterface } from 'readline';
+import * as path from 'path';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { SharedContext } from '../../types/index.js';
+import { withFileLock } from '../../utils/file-lock.js';
+import { ContextLogEntry, ContextSnapshot, ContextSnapshotInfo, ContextStorage } from './context-storage.js';
+
+const SNAPSHOT_FILE = /^snapshot-(\d+)-(\d+)\.json$/;
+
+// The whole context in one JSON file, rewritten atomically on every save
+// while holding a lock file next to it. The change log is a JSONL file and
+// snapshots are files in a directory, both next to the context file. The log
+// is read a line at a time, so it never has to fit in memory.
+export class JsonContextStorage implements ContextStorage {
+  readonly kind = 'json' as const;
+  private backupPath: string;
+  private lockPath: string;
+  private logPath: string;
+  private snapshotDir: string;
+
+  constructor(private contextPath: string = config.context.filePath) {
+    this.backupPath = `${this.contextPath}.backup`;
+    this.lockPath = `${this.contextPath}.lock`;
+    this.logPath = `${this.contextPath}.history.jsonl`;
+    this.snapshotDir = `${this.contextPath}.snapshots`;
+  }
+
+  async initialize(): Promise<void> {}
+
+  async load(): Promise<unknown | undefined> {
+    return this.read(this.contextPath);
+  }
+
+  async loadBackup(): Promise<unknown | undefined> {
+    return this.read(this.backupPath);
+  }
+
+  async save(context: SharedContext): Promise<void> {
+    try {
+      // Create backup if enabled
+      if (config.context.backupEnabled && existsSync(this.contextPath)) {
+        renameSync(this.contextPath, this.backupPath);
+      }
+
+      // Write atomically
+      const tempPath = `${this.contextPath}.tmp`;
+      writeFileSync(tempPath, JSON.stringify(context, null, 2), 'utf8');
+      renameSync(tempPath, this.contextPath);
+
+      logger.debug('ContextStorage', 'Context saved', { version: context.version });
+    } catch (error) {
+      logger.error('ContextStorage', 'Failed to save context', error);
+      throw error;
+    }
+  }
+
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    return withFileLock(this.lockPath, fn, {
+      timeout: config.context.lockTimeout,
+      staleAfter: config.context.lockStaleAfter
+    });
+  }
+
+  // Saves replace the file, so a new inode or mtime means a new write
+  async revision(): Promise<string | undefined> {
+    try {
+      const stats = statSync(this.contextPath);
+      return `${stats.ino}:${stats.mtimeMs}:${stats.size}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async appendLog(entries: ContextLogEntry[]): Promise<void> {
+    if (entries.length > 0) {
+      appendFileSync(this.logPath, entries.map(entry => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+    }
+  }
+
+  async readLog(afterVersion: number, toVersion: number): Promise<ContextLogEntry[]> {
+    const entries: ContextLogEntry[] = [];
+    for await (const { entry } of this.logLines()) {
+      if (entry.version > afterVersion && entry.version <= toVersion) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  // Copies the entries to keep into a new file that replaces the log
+  async pruneLog(throughVersion: number): Promise<void> {
+    if (!existsSync(this.logPath)) {
+      return;
+    }
+
+    const tempPath = `${this.logPath}.tmp`;
+    const out = createWriteStream(tempPath, 'utf8');
+    try {
+      for await (const { line, entry } of this.logLines()) {
+        if (entry.version > throughVersion && !out.write(`${line}\n`)) {
+          await once(out, 'drain');
+        }
+      }
+    } finally {
+      await new Promise(resolve => out.end(resolve));
+    }
+    renameSync(tempPath, this.logPath);
+  }
+
+  async saveSnapshot(snapshot: ContextSnapshot): Promise<void> {
+    mkdirSync(this.snapshotDir, { recursive: true });
+    const file = path.join(this.snapshotDir, `snapshot-${snapshot.version}-${Date.parse(snapshot.timestamp)}.json`);
+    writeFileSync(`${file}.tmp`, JSON.stringify(snapshot), 'utf8');
+    renameSync(`${file}.tmp`, file);
+  }
+
+  async listSnapshots(): Promise<ContextSnapshotInfo[]> {
+    return this.snapshotFiles().map(({ version, timestamp }) => ({ version, timestamp }));
+  }
+
+  async loadSnapshot(version: number): Promise<ContextSnapshot | undefined> {
+    const file = this.snapshotFiles().find(snapshot => snapshot.version === version);
+    return file ? this.read(file.path) as ContextSnapshot : undefined;
+  }
+
+  async deleteSnapshot(version: number): Promise<void> {
+    for (const file of this.snapshotFiles().filter(snapshot => snapshot.version === version)) {
+      unlinkSync(file.path);
+    }
+  }
+
+  async close(): Promise<void> {}
+
+  private async *logLines(): AsyncGenerator<{ line: string; entry: ContextLogEntry }> {
+    if (!existsSync(this.logPath)) {
+      return;
+    }
+
+    const lines = createInterface({ input: createReadStream(this.logPath, 'utf8'), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (line.trim()) {
+        yield { line, entry: JSON.parse(line) as ContextLogEntry };
+      }
+    }
+  }
+
+  // Version and time are in the file name so listing needs no reads
+  private snapshotFiles(): Array<ContextSnapshotInfo & { path: string }> {
+    if (!existsSync(this.snapshotDir)) {
+      return [];
+    }
+    return readdirSync(this.snapshotDir)
+      .map(name => ({ name, match: name.match(SNAPSHOT_FILE) }))
+      .flatMap(({ name, match }) => match ? [{
+        version: Number(match[1]),
+        timestamp: new Date(Number(match[2])).toISOString(),
+        path: path.join(this.snapshotDir, name)
+      }] : [])
+      .sort((a, b) => a.version - b.version);
+  }
+
+  private read(path: string): unknown | undefined {
+    if (!existsSync(path)) {
+      return undefined;
+    }
+    return JSON.parse(readFileSync(path, 'utf8'));
+  }
+}
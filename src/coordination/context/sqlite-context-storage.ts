@@ -0,0 +1,295 @@
+import type sqlite3 from 'sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../../config/index.js';
+import { logger } from '../../utils/logger.js';
+import { SharedContext } from '../../types/index.js';
+import { ContextChange, ContextLogEntry, ContextSnapshot, ContextSnapshotInfo, ContextStorage } from './context-storage.js';
+
+const SECTIONS: ContextChange['section'][] = ['globalState', 'agentStates', 'keyVersions', 'expiries'];
+// globalState entries too large to rewrite whole, stored a row per record
+// in the section `globalState.<key>`
+const SPLIT_KEYS = ['tasks'];
+
+// One row per top-level entry of globalState, agentStates, keyVersions and expiries,
+// and one per task, so a save only rewrites the entries that changed. The
+// change log and snapshots are tables in the same database. The lock is a
+// write transaction: BEGIN IMMEDIATE waits out other writers up to
+// lockTimeout. Callers in this process share the connection, so they take
+// turns before the transaction starts.
+export class SqliteContextStorage implements ContextStorage {
+  readonly kind = 'sqlite' as const;
+  private db!: sqlite3.Database;
+  private lockQueue: Promise<void> = Promise.resolve();
+  private transaction = new AsyncLocalStorage<boolean>();
+
+  constructor(private dbPath: string = config.context.sqlitePath) {}
+
+  async initialize(): Promise<void> {
+    // Loaded on demand so the JSON store works without the native bindings
+    const { default: sqlite } = await import('sqlite3');
+
+    const dir = path.dirname(this.dbPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = await new Promise<sqlite3.Database>((resolve, reject) => {
+      const db = new sqlite.Database(this.dbPath, error => error ? reject(error) : resolve(db));
+    });
+    this.db.configure('busyTimeout', config.context.lockTimeout);
+
+    await this.run('PRAGMA journal_mode = WAL');
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS context_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )
+    `);
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS context_entries (
+        section TEXT NOT NULL,
+        key TEXT NOT NULL,
+        value TEXT NOT NULL,
+        PRIMARY KEY (section, key)
+      )
+    `);
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS context_log (
+        version INTEGER NOT NULL,
+        agent_id TEXT NOT NULL,
+        key TEXT NOT NULL,
+        old_value TEXT,
+        new_value TEXT,
+        timestamp TEXT NOT NULL
+      )
+    `);
+    await this.run('CREATE INDEX IF NOT EXISTS idx_context_log_version ON context_log(version)');
+    await this.run(`
+      CREATE TABLE IF NOT EXISTS context_snapshots (
+        version INTEGER PRIMARY KEY,
+        timestamp TEXT NOT NULL,
+        context TEXT NOT NULL
+      )
+    `);
+    await this.splitLegacyEntries();
+
+    logger.info('ContextStorage', `Using SQLite context store at ${this.dbPath}`);
+  }
+
+  async load(): Promise<unknown | undefined> {
+    const meta = await this.all<{ key: string; value: string }>('SELECT key, value FROM context_meta');
+    if (meta.length === 0) {
+      return undefined;
+    }
+
+    const context: Record<string, any> = Object.fromEntries(SECTIONS.map(section => [section, {}]));
+    for (const { key, value } of meta) {
+      context[key] = JSON.parse(value);
+    }
+
+    const entries = await this.all<{ section: string; key: string; value: string }>(
+      'SELECT section, key, value FROM context_entries'
+    );
+    for (const { section, key, value } of entries) {
+      const [name, split] = section.split('.');
+      if (split) {
+        context[name][split] = context[name][split] || {};
+        context[name][split][key] = JSON.parse(value);
+      } else {
+        context[section][key] = JSON.parse(value);
+      }
+    }
+    return context;
+  }
+
+  async save(context: SharedContext, changes?: ContextChange[]): Promise<void> {
+    const write = async () => {
+      if (changes) {
+        for (const { section, key, item } of changes) {
+          await this.writeEntry(section, key, context[section][key], item);
+        }
+      } else {
+        await this.run('DELETE FROM context_entries');
+        for (const section of SECTIONS) {
+          for (const [key, value] of Object.entries(context[section])) {
+            await this.writeEntry(section, key, value);
+          }
+        }
+      }
+
+      for (const key of ['version', 'schemaVersion', 'lastUpdated'] as const) {
+        await this.run(
+          'INSERT OR REPLACE INTO context_meta (key, value) VALUES (?, ?)',
+          [key, JSON.stringify(context[key])]
+        );
+      }
+    };
+
+    try {
+      await this.withLock(write);
+      logger.debug('ContextStorage', 'Context saved', { version: context.version, entries: changes?.length ?? 'all' });
+    } catch (error) {
+      logger.error('ContextStorage', 'Failed to save context', error);
+      throw error;
+    }
+  }
+
+  // Calls made from within `fn` join its transaction
+  async withLock<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.transaction.getStore()) {
+      return fn();
+    }
+
+    const previous = this.lockQueue;
+    let release!: () => void;
+    this.lockQueue = new Promise(resolve => release = resolve);
+
+    try {
+      await previous;
+      await this.run('BEGIN IMMEDIATE');
+      try {
+        const result = await this.transaction.run(true, fn);
+        await this.run('COMMIT');
+        return result;
+      } catch (error) {
+        await this.run('ROLLBACK').catch(() => undefined);
+        throw error;
+      }
+    } finally {
+      release();
+    }
+  }
+
+  // data_version moves when another connection commits, not for our own writes
+  async revision(): Promise<string | undefined> {
+    const [row] = await this.all<{ data_version: number }>('PRAGMA data_version');
+    return row ? String(row.data_version) : undefined;
+  }
+
+  async appendLog(entries: ContextLogEntry[]): Promise<void> {
+    for (const entry of entries) {
+      await this.run(
+        'INSERT INTO context_log (version, agent_id, key, old_value, new_value, timestamp) VALUES (?, ?, ?, ?, ?, ?)',
+        [entry.version, entry.agentId, entry.key, toColumn(entry.oldValue), toColumn(entry.newValue), entry.timestamp]
+      );
+    }
+  }
+
+  async readLog(afterVersion: number, toVersion: number): Promise<ContextLogEntry[]> {
+    const rows = await this.all<{ version: number; agent_id: string; key: string; old_value: string | null; new_value: string | null; timestamp: string }>(
+      'SELECT * FROM context_log WHERE version > ? AND version <= ? ORDER BY version, rowid',
+      [afterVersion, toVersion]
+    );
+    return rows.map(row => ({
+      version: row.version,
+      agentId: row.agent_id,
+      key: row.key,
+      oldValue: fromColumn(row.old_value),
+      newValue: fromColumn(row.new_value),
+      timestamp: row.timestamp
+    }));
+  }
+
+  async pruneLog(throughVersion: number): Promise<void> {
+    await this.run('DELETE FROM context_log WHERE version <= ?', [throughVersion]);
+  }
+
+  async saveSnapshot(snapshot: ContextSnapshot): Promise<void> {
+    await this.run(
+      'INSERT OR REPLACE INTO context_snapshots (version, timestamp, context) VALUES (?, ?, ?)',
+      [snapshot.version, snapshot.timestamp, JSON.stringify(snapshot.context)]
+    );
+  }
+
+  async listSnapshots(): Promise<ContextSnapshotInfo[]> {
+    return this.all<ContextSnapshotInfo>('SELECT version, timestamp FROM context_snapshots ORDER BY version');
+  }
+
+  async loadSnapshot(version: number): Promise<ContextSnapshot | undefined> {
+    const [row] = await this.all<{ version: number; timestamp: string; context: string }>(
+      'SELECT version, timestamp, context FROM context_snapshots WHERE version = ?',
+      [version]
+    );
+    return row ? { version: row.version, timestamp: row.timestamp, context: JSON.parse(row.context) } : undefined;
+  }
+
+  async deleteSnapshot(version: number): Promise<void> {
+    await this.run('DELETE FROM context_snapshots WHERE version = ?', [version]);
+  }
+
+  async close(): Promise<void> {
+    if (!this.db) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => this.db.close(error => error ? reject(error) : resolve()));
+  }
+
+  private async writeEntry(section: ContextChange['section'], key: string, value: unknown, item?: string): Promise<void> {
+    if (section === 'globalState' && SPLIT_KEYS.includes(key)) {
+      const records: Record<string, unknown> = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+      if (item !== undefined) {
+        await this.writeRow(`${section}.${key}`, item, records[item]);
+        return;
+      }
+      await this.run('DELETE FROM context_entries WHERE section = ?', [`${section}.${key}`]);
+      for (const [id, record] of Object.entries(records)) {
+        await this.writeRow(`${section}.${key}`, id, record);
+      }
+      return;
+    }
+    await this.writeRow(section, key, value);
+  }
+
+  private async writeRow(section: string, key: string, value: unknown): Promise<void> {
+    if (value === undefined) {
+      await this.run('DELETE FROM context_entries WHERE section = ? AND key = ?', [section, key]);
+    } else {
+      await this.run(
+        'INSERT OR REPLACE INTO context_entries (section, key, value) VALUES (?, ?, ?)',
+        [section, key, JSON.stringify(value)]
+      );
+    }
+  }
+
+  // Databases written before tasks were split kept them all in one row
+  private async splitLegacyEntries(): Promise<void> {
+    const split = await this.withLock(async () => {
+      const rows = await this.all<{ key: string; value: string }>(
+        `SELECT key, value FROM context_entries WHERE section = 'globalState' AND key IN (${SPLIT_KEYS.map(() => '?').join(', ')})`,
+        SPLIT_KEYS
+      );
+      for (const { key, value } of rows) {
+        await this.run("DELETE FROM context_entries WHERE section = 'globalState' AND key = ?", [key]);
+        await this.writeEntry('globalState', key, JSON.parse(value));
+      }
+      return rows.map(row => row.key);
+    });
+
+    if (split.length > 0) {
+      logger.info('ContextStorage', `Split ${split.join(', ')} into a row per record`);
+    }
+  }
+
+  private run(sql: string, params: unknown[] = []): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.db.run(sql, params, error => error ? reject(error) : resolve());
+    });
+  }
+
+  private all<T>(sql: string, params: unknown[] = []): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this.db.all<T>(sql, params, (error, rows) => error ? reject(error) : resolve(rows));
+    });
+  }
+}
+
+// Context values are never null (writing null deletes), so NULL means unset
+function toColumn(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
+
+function fromColumn(value: string | null): unknown {
+  return value === null ? undefined : JSON.parse(value);
+}
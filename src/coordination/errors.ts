@@ -0,0 +1,244 @@
+import { TaskStatus, DuplicateMatch, AcceptanceCriterion } from '../types/tasks.js';
+
+// Errors raised by the coordination layer carry a stable code and structured
+// data so the MCP server can hand them back to Claude instances intact.
+export class CoordinationError extends Error {
+  readonly code: string;
+  readonly data: Record<string, any>;
+
+  constructor(code: string, message: string, data: Record<string, any> = {}) {
+    super(message);
+    this.name = 'CoordinationError';
+    this.code = code;
+    this.data = data;
+  }
+}
+
+export class InvalidTransitionError extends CoordinationError {
+  constructor(taskId: string, from: TaskStatus, to: TaskStatus, allowed: TaskStatus[]) {
+    super(
+      'INVALID_TRANSITION',
+      `Task ${taskId} cannot move from ${from} to ${to} (allowed: ${allowed.join(', ') || 'none'})`,
+      { taskId, from, to, allowed }
+    );
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class ReservedStatusError extends CoordinationError {
+  constructor(taskId: string, status: TaskStatus, use: 'claimTask' | 'failTask') {
+    super(
+      'STATUS_RESERVED',
+      `Task ${taskId} cannot be moved to ${status} by an update, ${use === 'claimTask' ? 'claim it' : 'fail it'} instead`,
+      { taskId, status, use }
+    );
+    this.name = 'ReservedStatusError';
+  }
+}
+
+export class ClaimNotHeldError extends CoordinationError {
+  constructor(taskId: string, holder: string, actor: string) {
+    super(
+      'CLAIM_NOT_HELD',
+      `Task ${taskId} is claimed by ${holder}, ${actor} cannot change it`,
+      { taskId, holder, actor }
+    );
+    this.name = 'ClaimNotHeldError';
+  }
+}
+
+export class ClaimedTaskReassignError extends CoordinationError {
+  constructor(taskId: string, holder: string) {
+    super(
+      'CLAIMED_TASK_REASSIGN',
+      `Task ${taskId} is claimed by ${holder}; release it so another instance can claim it`,
+      { taskId, holder }
+    );
+    this.name = 'ClaimedTaskReassignError';
+  }
+}
+
+export class DependencyNotFoundError extends CoordinationError {
+  constructor(taskId: string, missing: string[]) {
+    super(
+      'DEPENDENCY_NOT_FOUND',
+      `Task ${taskId} depends on unknown tasks: ${missing.join(', ')}`,
+      { taskId, missing }
+    );
+    this.name = 'DependencyNotFoundError';
+  }
+}
+
+export class DependencyCycleError extends CoordinationError {
+  constructor(taskId: string, cycle: string[]) {
+    super(
+      'DEPENDENCY_CYCLE',
+      `Dependencies of task ${taskId} would create a cycle: ${cycle.join(' -> ')}`,
+      { taskId, cycle }
+    );
+    this.name = 'DependencyCycleError';
+  }
+}
+
+export class DuplicateTaskError extends CoordinationError {
+  constructor(title: string, matches: DuplicateMatch[]) {
+    super(
+      'DUPLICATE_TASK',
+      `Task "${title}" duplicates open tasks: ${matches.map(match => match.taskId).join(', ')}`,
+      { title, matchedTaskIds: matches.map(match => match.taskId), matches }
+    );
+    this.name = 'DuplicateTaskError';
+  }
+}
+
+export class MissingTemplateFieldsError extends CoordinationError {
+  constructor(templateId: string, missing: string[]) {
+    super(
+      'TEMPLATE_FIELDS_MISSING',
+      `Template ${templateId} requires fields: ${missing.join(', ')}`,
+      { templateId, missing }
+    );
+    this.name = 'MissingTemplateFieldsError';
+  }
+}
+
+export class UnmetAcceptanceCriteriaError extends CoordinationError {
+  constructor(taskId: string, unmet: AcceptanceCriterion[]) {
+    super(
+      'ACCEPTANCE_CRITERIA_UNMET',
+      `Task ${taskId} has ${unmet.length} acceptance criteria that are neither checked nor waived`,
+      { taskId, unmet: unmet.map(({ id, description }) => ({ id, description })) }
+    );
+    this.name = 'UnmetAcceptanceCriteriaError';
+  }
+}
+
+export class RetryBackoffError extends CoordinationError {
+  constructor(taskId: string, nextRetryAt: string, attempts: number) {
+    super(
+      'RETRY_BACKOFF',
+      `Task ${taskId} failed ${attempts} time(s) and cannot be retried before ${nextRetryAt}`,
+      { taskId, nextRetryAt, attempts }
+    );
+    this.name = 'RetryBackoffError';
+  }
+}
+
+export class InvalidTaskError extends CoordinationError {
+  constructor(taskId: string | undefined, issues: string[]) {
+    super(
+      'INVALID_TASK',
+      `Task ${taskId ?? '(without id)'} does not match the task model: ${issues.join('; ')}`,
+      { taskId, issues }
+    );
+    this.name = 'InvalidTaskError';
+  }
+}
+
+export class InvalidScheduleError extends CoordinationError {
+  constructor(cron: string, reason: string) {
+    super(
+      'INVALID_SCHEDULE',
+      `Invalid schedule "${cron}": ${reason}`,
+      { cron, reason }
+    );
+    this.name = 'InvalidScheduleError';
+  }
+}
+
+export class ApprovalRequiredError extends CoordinationError {
+  constructor(taskId: string, approvalId?: string) {
+    super(
+      'APPROVAL_REQUIRED',
+      `Task ${taskId} is awaiting approval${approvalId ? ` (${approvalId})` : ''} and can only be approved or rejected`,
+      { taskId, approvalId }
+    );
+    this.name = 'ApprovalRequiredError';
+  }
+}
+
+export class ApprovalDecisionError extends CoordinationError {
+  constructor(approvalId: string, reason: string) {
+    super(
+      'APPROVAL_DECISION_REFUSED',
+      `Approval ${approvalId} cannot be decided: ${reason}`,
+      { approvalId, reason }
+    );
+    this.name = 'ApprovalDecisionError';
+  }
+}
+
+export interface VersionConflict {
+  key?: string; // Unset when the whole-context version did not match
+  expectedVersion: number;
+  currentVersion: number;
+  currentValue?: any;
+}
+
+export class VersionConflictError extends CoordinationError {
+  constructor(conflicts: VersionConflict[], contextVersion: number) {
+    super(
+      'VERSION_CONFLICT',
+      `Context changed since it was read: ${conflicts
+        .map(conflict => `${conflict.key || 'context'} is at version ${conflict.currentVersion}, expected ${conflict.expectedVersion}`)
+        .join('; ')}`,
+      { conflicts, contextVersion }
+    );
+    this.name = 'VersionConflictError';
+  }
+}
+
+export class InvalidContextPathError extends CoordinationError {
+  constructor(path: string, reason: string) {
+    super(
+      'INVALID_CONTEXT_PATH',
+      `Invalid context path "${path}": ${reason}`,
+      { path, reason }
+    );
+    this.name = 'InvalidContextPathError';
+  }
+}
+
+export class InvalidResourceUriError extends CoordinationError {
+  constructor(uri: string, reason: string) {
+    super(
+      'INVALID_RESOURCE_URI',
+      `Invalid resource URI "${uri}": ${reason}`,
+      { uri, reason }
+    );
+    this.name = 'InvalidResourceUriError';
+  }
+}
+
+export class ContextHistoryError extends CoordinationError {
+  constructor(target: number | string, reason: string) {
+    super(
+      'CONTEXT_HISTORY_UNAVAILABLE',
+      `Cannot rebuild the context at ${typeof target === 'number' ? `version ${target}` : target}: ${reason}`,
+      { target, reason }
+    );
+    this.name = 'ContextHistoryError';
+  }
+}
+
+export class ContextSchemaVersionError extends CoordinationError {
+  constructor(found: number, supported: number) {
+    super(
+      'CONTEXT_SCHEMA_TOO_NEW',
+      `The stored context uses schema version ${found}, but this build only knows up to version ${supported}. Upgrade before opening it.`,
+      { found, supported }
+    );
+    this.name = 'ContextSchemaVersionError';
+  }
+}
+
+export class NamespaceAccessError extends CoordinationError {
+  constructor(path: string, agentId: string, reason: string) {
+    super(
+      'NAMESPACE_ACCESS_DENIED',
+      `${agentId} cannot write "${path}": ${reason}`,
+      { path, agentId, reason }
+    );
+    this.name = 'NamespaceAccessError';
+  }
+}
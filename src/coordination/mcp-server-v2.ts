@@ -1,60 +1,215 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode
+} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { ContextManager } from './context/context-manager.js';
 import { RAGSystem } from './rag-system.js';
 import { TaskManager } from './task-manager.js';
-import { TaskPriority } from '../types/tasks.js';
+import { ApprovalDecisionError, CoordinationError } from './errors.js';
+import { createApprovalPolicy } from './approval-policy.js';
+import { RESOURCES, RESOURCE_TEMPLATES, ResourceSubscriptions } from './resource-subscriptions.js';
+import { ApprovalStatusSchema, RoleName, RoleNameSchema, TaskPrioritySchema, TaskResultsSchema, TaskScheduleSchema, TaskStatusSchema } from '../types/tasks.js';
 
 // Tool schemas
 const CreateTaskSchema = z.object({
   title: z.string(),
   description: z.string(),
+  type: z.string().optional(),
   tags: z.array(z.string()),
-  priority: z.number().min(1).max(5).optional(),
-  assignedRole: z.enum(['auditor', 'implementer', 'validator']).optional(),
+  priority: TaskPrioritySchema.optional(),
+  assignedRole: RoleNameSchema.optional(),
   dependencies: z.array(z.string()).optional(),
-  context: z.string().optional()
+  context: z.string().optional(),
+  parentId: z.string().optional(),
+  duplicatePolicy: z.enum(['off', 'reject', 'merge', 'link']).optional(),
+  acceptanceCriteria: z.array(z.string()).optional(),
+  estimate: z.number().positive().optional(),
+  retryPolicy: z.object({
+    maxAttempts: z.number().int().min(1),
+    backoff: z.enum(['fixed', 'exponential']).default('exponential'),
+    baseDelay: z.number().min(0).default(60),
+    maxDelay: z.number().min(0).default(3600)
+  }).optional()
+});
+
+const CreateTaskFromTemplateSchema = z.object({
+  templateId: z.string(),
+  title: z.string(),
+  fields: z.record(z.string()).default({}),
+  description: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  priority: TaskPrioritySchema.optional(),
+  assignedRole: RoleNameSchema.optional(),
+  dependencies: z.array(z.string()).optional(),
+  parentId: z.string().optional(),
+  acceptanceCriteria: z.array(z.string()).optional(),
+  estimate: z.number().positive().optional()
+});
+
+const UpdateAcceptanceCriterionSchema = z.object({
+  taskId: z.string(),
+  criterionId: z.string(),
+  status: z.enum(['open', 'checked', 'waived']),
+  note: z.string().optional()
+});
+
+const CreateSubtasksSchema = z.object({
+  parentId: z.string(),
+  subtasks: z.array(z.object({
+    title: z.string(),
+    description: z.string(),
+    tags: z.array(z.string()).optional(),
+    priority: TaskPrioritySchema.optional(),
+    assignedRole: RoleNameSchema.optional(),
+    dependencies: z.array(z.string()).optional(),
+    estimate: z.number().positive().optional()
+  })).min(1)
 });
 
 const UpdateTaskSchema = z.object({
   taskId: z.string(),
-  status: z.enum(['pending', 'in_progress', 'blocked', 'completed', 'cancelled']).optional(),
+  status: TaskStatusSchema.optional(),
   assignedTo: z.string().optional(),
+  dependencies: z.array(z.string()).optional(),
   blockedBy: z.string().optional(),
-  results: z.object({
-    files: z.array(z.string()).optional(),
-    commands: z.array(z.string()).optional(),
-    tests: z.array(z.string()).optional(),
-    metrics: z.record(z.any()).optional()
-  }).optional()
+  estimate: z.number().positive().optional(),
+  results: TaskResultsSchema.optional(),
+  reason: z.string().optional(),
+  cascade: z.enum(['block', 'cancel']).optional()
 });
 
 const GetTasksSchema = z.object({
   tags: z.array(z.string()).optional(),
   excludeTags: z.array(z.string()).optional(),
-  roles: z.array(z.enum(['auditor', 'implementer', 'validator'])).optional(),
-  status: z.array(z.enum(['pending', 'in_progress', 'blocked', 'completed', 'cancelled'])).optional(),
-  priority: z.array(z.number().min(1).max(5)).optional(),
+  roles: z.array(RoleNameSchema).optional(),
+  status: z.array(TaskStatusSchema).optional(),
+  priority: z.array(TaskPrioritySchema).optional(),
   assignedTo: z.string().optional(),
   includeCompleted: z.boolean().optional()
 });
 
+const SearchTasksSchema = GetTasksSchema.extend({
+  query: z.string().min(1),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  dateField: z.enum(['createdAt', 'updatedAt', 'completedAt']).optional(),
+  semantic: z.boolean().optional(),
+  limit: z.number().int().min(1).max(50).optional(),
+  offset: z.number().int().min(0).optional()
+});
+
 const ClaimTaskSchema = z.object({
   taskId: z.string()
 });
 
+const GetTaskGraphSchema = z.object({
+  taskId: z.string().optional()
+});
+
+const GetTaskAnalyticsSchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional()
+});
+
+const AddTaskCommentSchema = z.object({
+  taskId: z.string(),
+  body: z.string().min(1),
+  references: z.array(z.object({
+    file: z.string(),
+    line: z.number().int().positive().optional(),
+    endLine: z.number().int().positive().optional()
+  })).optional(),
+  replyTo: z.string().optional()
+});
+
+const GetTaskCommentsSchema = z.object({
+  taskId: z.string()
+});
+
+const ClaimNextTaskSchema = z.object({
+  role: RoleNameSchema.optional()
+});
+
+const RenewClaimSchema = z.object({
+  taskId: z.string()
+});
+
 const CompleteTaskSchema = z.object({
   taskId: z.string(),
-  results: z.object({
-    files: z.array(z.string()).optional(),
-    commands: z.array(z.string()).optional(),
-    tests: z.array(z.string()).optional(),
-    metrics: z.record(z.any()).optional()
-  }).optional()
+  results: TaskResultsSchema.optional(),
+  reason: z.string().optional()
+});
+
+const FailTaskSchema = z.object({
+  taskId: z.string(),
+  error: z.string().min(1),
+  retryable: z.boolean().optional()
+});
+
+const RequeueTaskSchema = z.object({
+  taskId: z.string(),
+  reason: z.string().optional(),
+  resetAttempts: z.boolean().optional()
+});
+
+const CreateScheduleSchema = z.object({
+  name: z.string().min(1),
+  cron: z.string().min(1),
+  task: TaskScheduleSchema.shape.task,
+  enabled: z.boolean().optional()
+});
+
+const RequestApprovalSchema = z.object({
+  action: z.enum(['merge', 'commit', 'config_edit']),
+  summary: z.string().min(1),
+  taskId: z.string().optional(),
+  files: z.array(z.string()).optional()
+});
+
+const ListApprovalsSchema = z.object({
+  status: ApprovalStatusSchema.optional()
+});
+
+const ApproveSchema = z.object({
+  id: z.string(),
+  reason: z.string().optional()
+});
+
+const RejectSchema = z.object({
+  id: z.string(),
+  reason: z.string().min(1)
+});
+
+const UpdateContextSchema = z.object({
+  updates: z.record(z.string(), z.any()),
+  expectedVersion: z.number().int().min(0).optional(),
+  expectedVersions: z.record(z.string(), z.number().int().min(0)).optional(),
+  ttl: z.number().int().positive().optional()
+});
+
+const GetContextSchema = z.object({
+  paths: z.array(z.string()).optional(),
+  includeVersions: z.boolean().default(false)
+});
+
+const GetContextAtSchema = z.object({
+  version: z.number().int().min(1).optional(),
+  timestamp: z.string().datetime({ offset: true }).optional(),
+  paths: z.array(z.string()).optional()
+}).refine(args => (args.version === undefined) !== (args.timestamp === undefined), {
+  message: 'Give either version or timestamp'
 });
 
 export class MCPServerV2 {
@@ -62,10 +217,13 @@ export class MCPServerV2 {
   private contextManager: ContextManager;
   private ragSystem: RAGSystem;
   private taskManager: TaskManager;
+  private subscriptions: ResourceSubscriptions;
   private instanceId: string;
+  private role?: RoleName;
 
   constructor() {
     this.instanceId = process.env.CLAUDE_INSTANCE_ID || 'claude-default';
+    this.role = process.env.CLAUDE_ROLE as RoleName | undefined;
     
     this.server = new Server(
       {
@@ -75,6 +233,7 @@ export class MCPServerV2 {
       {
         capabilities: {
           tools: {},
+          resources: { subscribe: true },
         },
       }
     );
@@ -82,8 +241,16 @@ export class MCPServerV2 {
     this.contextManager = new ContextManager();
     this.ragSystem = new RAGSystem();
     this.taskManager = new TaskManager(this.contextManager, this.ragSystem);
+    // Tasks and actions from Claude instances are gated by the automation level
+    this.taskManager.setApprovalPolicy(createApprovalPolicy());
+    // Clients subscribe to context and task resources instead of polling
+    this.subscriptions = new ResourceSubscriptions(
+      this.contextManager,
+      uri => this.server.sendResourceUpdated({ uri })
+    );
 
     this.setupHandlers();
+    this.setupResourceHandlers();
   }
 
   private setupHandlers(): void {
@@ -93,12 +260,13 @@ export class MCPServerV2 {
         // Task management tools
         {
           name: 'create_task',
-          description: 'Create a new task with tags and metadata',
+          description: 'Create a new task with tags and metadata. Similar open tasks are reported in "duplicates" and handled according to the duplicate policy',
           inputSchema: {
             type: 'object',
             properties: {
               title: { type: 'string', description: 'Task title' },
               description: { type: 'string', description: 'Detailed task description' },
+              type: { type: 'string', description: 'Kind of work for agents that dispatch on it, e.g. fix_errors or run_tests' },
               tags: { 
                 type: 'array', 
                 items: { type: 'string' },
@@ -118,33 +286,167 @@ export class MCPServerV2 {
               dependencies: {
                 type: 'array',
                 items: { type: 'string' },
-                description: 'IDs of tasks that must complete first'
+                description: 'IDs of existing tasks that must complete first'
+              },
+              parentId: {
+                type: 'string',
+                description: 'Epic this task belongs to'
+              },
+              duplicatePolicy: {
+                type: 'string',
+                enum: ['off', 'reject', 'merge', 'link'],
+                description: 'What to do when similar open tasks exist: reject the new task, merge it into the closest match, or create it linked to the matches'
+              },
+              acceptanceCriteria: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Checklist that must be checked off or waived before the task can complete'
+              },
+              estimate: {
+                type: 'number',
+                exclusiveMinimum: 0,
+                description: 'Expected effort in hours'
+              },
+              retryPolicy: {
+                type: 'object',
+                properties: {
+                  maxAttempts: { type: 'number', minimum: 1 },
+                  backoff: { type: 'string', enum: ['fixed', 'exponential'] },
+                  baseDelay: { type: 'number', description: 'Seconds before the first retry' },
+                  maxDelay: { type: 'number', description: 'Cap on the retry delay in seconds' }
+                },
+                required: ['maxAttempts'],
+                description: 'Overrides the tag and default retry policies for this task'
               }
             },
             required: ['title', 'description', 'tags']
           }
         },
+        {
+          name: 'list_task_templates',
+          description: 'List task templates with their required fields and acceptance criteria',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        },
+        {
+          name: 'create_task_from_template',
+          description: 'Create a task from a template (bug-fix, feature, refactor, security-fix or a project template), filling in its required fields',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              templateId: { type: 'string' },
+              title: { type: 'string' },
+              fields: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+                description: 'Values for the template fields, e.g. stepsToReproduce'
+              },
+              description: { type: 'string' },
+              tags: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Added to the template default tags'
+              },
+              priority: { type: 'number', minimum: 1, maximum: 5 },
+              assignedRole: {
+                type: 'string',
+                enum: ['auditor', 'implementer', 'validator']
+              },
+              dependencies: { type: 'array', items: { type: 'string' } },
+              parentId: { type: 'string' },
+              acceptanceCriteria: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Extra criteria on top of the template ones'
+              },
+              estimate: { type: 'number', exclusiveMinimum: 0, description: 'Expected effort in hours' }
+            },
+            required: ['templateId', 'title', 'fields']
+          }
+        },
+        {
+          name: 'update_acceptance_criterion',
+          description: 'Check off, waive (with a reason) or reopen an acceptance criterion on a task',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              taskId: { type: 'string' },
+              criterionId: { type: 'string' },
+              status: { type: 'string', enum: ['open', 'checked', 'waived'] },
+              note: { type: 'string', description: 'Evidence for a check; required reason for a waiver' }
+            },
+            required: ['taskId', 'criterionId', 'status']
+          }
+        },
+        {
+          name: 'create_subtasks',
+          description: 'Break a task into subtasks. The parent becomes an epic whose status and progress roll up from its subtasks',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              parentId: { type: 'string' },
+              subtasks: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    title: { type: 'string' },
+                    description: { type: 'string' },
+                    tags: {
+                      type: 'array',
+                      items: { type: 'string' },
+                      description: 'Defaults to the parent tags'
+                    },
+                    priority: { type: 'number', minimum: 1, maximum: 5 },
+                    assignedRole: {
+                      type: 'string',
+                      enum: ['auditor', 'implementer', 'validator']
+                    },
+                    dependencies: { type: 'array', items: { type: 'string' } },
+                    estimate: { type: 'number', exclusiveMinimum: 0, description: 'Expected effort in hours' }
+                  },
+                  required: ['title', 'description']
+                }
+              }
+            },
+            required: ['parentId', 'subtasks']
+          }
+        },
         {
           name: 'update_task',
-          description: 'Update task status or details',
+          description: 'Update task status or details. Status changes must follow the task workflow and are recorded in the task history. Use claim_task to start a task and fail_task to fail one; only the claim holder can move a task that is in progress. Blocking, cancelling or failing a task blocks its pending dependents until it recovers',
           inputSchema: {
             type: 'object',
             properties: {
               taskId: { type: 'string' },
               status: { 
                 type: 'string',
-                enum: ['pending', 'in_progress', 'blocked', 'completed', 'cancelled']
+                enum: ['pending', 'blocked', 'completed', 'cancelled']
+              },
+              assignedTo: { type: 'string', description: 'Not while the task is claimed: release it and let the other instance claim it' },
+              dependencies: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Replaces the task dependencies; must reference existing tasks without creating a cycle'
               },
-              assignedTo: { type: 'string' },
               blockedBy: { type: 'string' },
-              results: { type: 'object' }
+              estimate: { type: 'number', exclusiveMinimum: 0, description: 'Expected effort in hours' },
+              results: { type: 'object' },
+              reason: { type: 'string', description: 'Why the status is changing' },
+              cascade: {
+                type: 'string',
+                enum: ['block', 'cancel'],
+                description: 'When cancelling: block dependents until the task is reopened, or cancel them too'
+              }
             },
             required: ['taskId']
           }
         },
         {
           name: 'get_tasks',
-          description: 'Get filtered list of tasks',
+          description: 'Get filtered list of tasks in scheduling order, each with the effectiveScore it was ranked by',
           inputSchema: {
             type: 'object',
             properties: {
@@ -158,9 +460,85 @@ export class MCPServerV2 {
             }
           }
         },
+        {
+          name: 'search_tasks',
+          description: 'Search tasks by keywords in title, tags, description and comments combined with semantic RAG search. Returns ranked tasks with highlighted matches',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: { type: 'string', description: 'Free text, e.g. "auth token refresh"' },
+              tags: { type: 'array', items: { type: 'string' } },
+              excludeTags: { type: 'array', items: { type: 'string' } },
+              roles: { type: 'array', items: { type: 'string' } },
+              status: { type: 'array', items: { type: 'string' } },
+              priority: { type: 'array', items: { type: 'number' } },
+              assignedTo: { type: 'string' },
+              from: { type: 'string', description: 'ISO date-time; only tasks with dateField on or after it' },
+              to: { type: 'string', description: 'ISO date-time; only tasks with dateField on or before it' },
+              dateField: {
+                type: 'string',
+                enum: ['createdAt', 'updatedAt', 'completedAt'],
+                description: 'Date the range applies to (default createdAt)'
+              },
+              semantic: { type: 'boolean', description: 'Also rank by RAG similarity (default true)' },
+              limit: { type: 'number', minimum: 1, maximum: 50, description: 'Page size (default 10)' },
+              offset: { type: 'number', minimum: 0 }
+            },
+            required: ['query']
+          }
+        },
+        {
+          name: 'get_task_graph',
+          description: 'Get the task dependency graph with its critical path and the tasks held back by unfinished dependencies',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              taskId: {
+                type: 'string',
+                description: 'Limit the graph to tasks connected to this one'
+              }
+            }
+          }
+        },
+        {
+          name: 'get_task_analytics',
+          description: 'Report lead time, cycle time, throughput per role, time spent per status and estimate accuracy for tasks completed in a date range',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              from: { type: 'string', description: 'ISO date-time, defaults to 7 days before "to"' },
+              to: { type: 'string', description: 'ISO date-time, defaults to now' }
+            }
+          }
+        },
         {
           name: 'claim_task',
-          description: 'Claim a task to work on it',
+          description: 'Claim a task to work on it. The claim expires unless renewed with renew_claim',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              taskId: { type: 'string' }
+            },
+            required: ['taskId']
+          }
+        },
+        {
+          name: 'claim_next_task',
+          description: "Atomically pick and claim the best eligible task for this instance's role, based on its watch tags, ignore tags and priority threshold",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              role: {
+                type: 'string',
+                enum: ['auditor', 'implementer', 'validator'],
+                description: 'Defaults to the role this instance was launched with'
+              }
+            }
+          }
+        },
+        {
+          name: 'renew_claim',
+          description: 'Extend the lease on a claimed task before it expires and returns to the queue',
           inputSchema: {
             type: 'object',
             properties: {
@@ -171,12 +549,167 @@ export class MCPServerV2 {
         },
         {
           name: 'complete_task',
-          description: 'Mark a task as completed',
+          description: 'Mark an in-progress task as completed. Refused while any acceptance criterion is neither checked nor waived',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              taskId: { type: 'string' },
+              results: { type: 'object' },
+              reason: { type: 'string' }
+            },
+            required: ['taskId']
+          }
+        },
+        {
+          name: 'fail_task',
+          description: 'Report that an attempt at an in-progress task failed. The task is retried after a backoff until its retry policy runs out, then it lands in the dead-letter queue',
           inputSchema: {
             type: 'object',
             properties: {
               taskId: { type: 'string' },
-              results: { type: 'object' }
+              error: { type: 'string', description: 'What went wrong' },
+              retryable: { type: 'boolean', description: 'Set to false to skip retries for permanent errors' }
+            },
+            required: ['taskId', 'error']
+          }
+        },
+        {
+          name: 'get_dead_letter_tasks',
+          description: 'List failed tasks that exhausted their retries, with their last errors',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        },
+        {
+          name: 'requeue_task',
+          description: 'Put a failed task back in the queue, by default with a fresh set of attempts',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              taskId: { type: 'string' },
+              reason: { type: 'string' },
+              resetAttempts: { type: 'boolean', description: 'Defaults to true' }
+            },
+            required: ['taskId']
+          }
+        },
+        {
+          name: 'create_schedule',
+          description: 'Define a recurring task. Each time the cron expression (UTC) comes due a task is created, unless the one from the previous run is still open',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'e.g. Nightly security scan' },
+              cron: { type: 'string', description: 'Five-field cron expression such as "0 2 * * *", or @hourly, @daily, @nightly, @weekly, @monthly' },
+              task: {
+                type: 'object',
+                description: 'The task to create on each run',
+                properties: {
+                  title: { type: 'string' },
+                  description: { type: 'string' },
+                  type: { type: 'string', description: 'Kind of work, e.g. security_scan or dependency_check' },
+                  tags: { type: 'array', items: { type: 'string' } },
+                  priority: { type: 'number', minimum: 1, maximum: 5 },
+                  assignedRole: { type: 'string', enum: ['auditor', 'implementer', 'validator'] },
+                  estimate: { type: 'number', description: 'Expected effort in hours' }
+                },
+                required: ['title', 'description', 'tags']
+              },
+              enabled: { type: 'boolean', description: 'Defaults to true' }
+            },
+            required: ['name', 'cron', 'task']
+          }
+        },
+        {
+          name: 'list_schedules',
+          description: 'List recurring task schedules with their next and last runs',
+          inputSchema: {
+            type: 'object',
+            properties: {}
+          }
+        },
+        {
+          name: 'request_approval',
+          description: 'Ask before a merge, commit or config edit. Depending on the automation level the action is approved right away or waits for a human; poll list_approvals for the decision',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: ['merge', 'commit', 'config_edit'] },
+              summary: { type: 'string', description: 'What you are about to do and why' },
+              taskId: { type: 'string', description: 'Task the action belongs to' },
+              files: { type: 'array', items: { type: 'string' }, description: 'Files touched; critical files need approval as config edits' }
+            },
+            required: ['action', 'summary']
+          }
+        },
+        {
+          name: 'list_approvals',
+          description: 'List approval requests for tasks and actions, with their decisions and reasons',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              status: { type: 'string', enum: ['awaiting_approval', 'approved', 'rejected'] }
+            }
+          }
+        },
+        {
+          name: 'approve',
+          description: 'Approve a pending request, by approval ID or the ID of a task awaiting approval. For people only: agents and instances launched for a role are refused, and nobody can approve their own request',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              reason: { type: 'string', description: 'Recorded for the audit trail' }
+            },
+            required: ['id']
+          }
+        },
+        {
+          name: 'reject',
+          description: 'Reject a pending request; a rejected task is cancelled. For people only, like approve',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              reason: { type: 'string', description: 'Required, recorded for the audit trail' }
+            },
+            required: ['id', 'reason']
+          }
+        },
+        {
+          name: 'add_task_comment',
+          description: 'Comment on a task to discuss it with other roles. Comments are indexed in RAG',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              taskId: { type: 'string' },
+              body: { type: 'string', description: 'Markdown comment body' },
+              references: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    file: { type: 'string' },
+                    line: { type: 'number' },
+                    endLine: { type: 'number' }
+                  },
+                  required: ['file']
+                },
+                description: 'Files and lines the comment refers to'
+              },
+              replyTo: { type: 'string', description: 'ID of the comment being answered' }
+            },
+            required: ['taskId', 'body']
+          }
+        },
+        {
+          name: 'get_task_comments',
+          description: 'Get the comment threads on a task',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              taskId: { type: 'string' }
             },
             required: ['taskId']
           }
@@ -190,7 +723,19 @@ export class MCPServerV2 {
             properties: {
               updates: { 
                 type: 'object',
-                description: 'Key-value pairs to update in context'
+                description: 'Values to write by dot path or JSON Pointer, e.g. "agentStates.agent-1.state" or "/notes/a.b". Paths outside agentStates are in globalState. null deletes; {"$append": value} and {"$removeById": id} edit arrays. tasks.*, approvals.* and schedules.* are read-only here, change them with the task tools. agents.<agentId>.* and roles.<role>.* are scratch space only their owner writes'
+              },
+              ttl: {
+                type: 'number',
+                description: 'Seconds until the written globalState values are deleted'
+              },
+              expectedVersion: {
+                type: 'number',
+                description: 'Only write if the context is still at this version'
+              },
+              expectedVersions: {
+                type: 'object',
+                description: 'Only write if each key is still at this version (0 = never written). Conflicts are rejected with the current values'
               }
             },
             required: ['updates']
@@ -205,7 +750,33 @@ export class MCPServerV2 {
               paths: { 
                 type: 'array',
                 items: { type: 'string' },
-                description: 'Specific paths to retrieve'
+                description: 'Dot paths or JSON Pointers to retrieve, as in update_context'
+              },
+              includeVersions: {
+                type: 'boolean',
+                description: 'Also return the context version and the version of each path, for expectedVersion/expectedVersions'
+              }
+            }
+          }
+        },
+        {
+          name: 'get_context_at',
+          description: 'Get shared context as it was at an earlier version or time, rebuilt from snapshots and the change log',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              version: {
+                type: 'number',
+                description: 'Context version to read'
+              },
+              timestamp: {
+                type: 'string',
+                description: 'ISO time; reads the latest version written at or before it. Give this or version'
+              },
+              paths: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Dot paths or JSON Pointers to retrieve, as in get_context'
               }
             }
           }
@@ -255,10 +826,45 @@ export class MCPServerV2 {
               validated.tags,
               this.instanceId,
               {
-                priority: validated.priority as TaskPriority,
+                priority: validated.priority,
                 assignedRole: validated.assignedRole,
                 dependencies: validated.dependencies,
-                context: validated.context
+                context: validated.context,
+                parentId: validated.parentId,
+                duplicatePolicy: validated.duplicatePolicy,
+                acceptanceCriteria: validated.acceptanceCriteria,
+                estimate: validated.estimate,
+                retryPolicy: validated.retryPolicy,
+                type: validated.type
+              }
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(task, null, 2)
+              }]
+            };
+          }
+
+          case 'list_task_templates': {
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(this.taskManager.getTemplates(), null, 2)
+              }]
+            };
+          }
+
+          case 'create_task_from_template': {
+            const { templateId, title, fields, ...options } = CreateTaskFromTemplateSchema.parse(args);
+            const task = await this.taskManager.createTaskFromTemplate(
+              templateId,
+              title,
+              fields,
+              this.instanceId,
+              {
+                ...options,
+                priority: options.priority
               }
             );
             return {
@@ -269,11 +875,46 @@ export class MCPServerV2 {
             };
           }
 
+          case 'update_acceptance_criterion': {
+            const validated = UpdateAcceptanceCriterionSchema.parse(args);
+            const task = await this.taskManager.updateAcceptanceCriterion(
+              validated.taskId,
+              validated.criterionId,
+              validated.status,
+              this.instanceId,
+              validated.note
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(task, null, 2)
+              }]
+            };
+          }
+
+          case 'create_subtasks': {
+            const validated = CreateSubtasksSchema.parse(args);
+            const tasks = await this.taskManager.createSubtasks(
+              validated.parentId,
+              validated.subtasks.map(subtask => ({
+                ...subtask,
+                priority: subtask.priority
+              })),
+              this.instanceId
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(tasks, null, 2)
+              }]
+            };
+          }
+
           case 'update_task': {
-            const validated = UpdateTaskSchema.parse(args);
+            const { taskId, ...updates } = UpdateTaskSchema.parse(args);
             const task = await this.taskManager.updateTask(
-              validated.taskId,
-              validated,
+              taskId,
+              updates,
               this.instanceId
             );
             return {
@@ -286,9 +927,9 @@ export class MCPServerV2 {
 
           case 'get_tasks': {
             const validated = GetTasksSchema.parse(args);
-            const tasks = await this.taskManager.getTasks({
+            const tasks = await this.taskManager.getScheduledTasks({
               ...validated,
-              priority: validated.priority as TaskPriority[]
+              priority: validated.priority
             });
             return {
               content: [{
@@ -298,11 +939,91 @@ export class MCPServerV2 {
             };
           }
 
+          case 'search_tasks': {
+            const { query, from, to, dateField, semantic, limit, offset, ...filter } = SearchTasksSchema.parse(args);
+            const result = await this.taskManager.searchTasks(query, {
+              filter: {
+                ...filter,
+                priority: filter.priority,
+                includeCompleted: filter.includeCompleted ?? true
+              },
+              from,
+              to,
+              dateField,
+              semantic,
+              limit,
+              offset
+            });
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(result, null, 2)
+              }]
+            };
+          }
+
+          case 'get_task_graph': {
+            const validated = GetTaskGraphSchema.parse(args);
+            const graph = await this.taskManager.getTaskGraph(validated.taskId);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(graph, null, 2)
+              }]
+            };
+          }
+
+          case 'get_task_analytics': {
+            const validated = GetTaskAnalyticsSchema.parse(args);
+            const analytics = await this.taskManager.getTaskAnalytics({
+              from: validated.from ? new Date(validated.from) : undefined,
+              to: validated.to ? new Date(validated.to) : undefined
+            });
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(analytics, null, 2)
+              }]
+            };
+          }
+
           case 'claim_task': {
             const validated = ClaimTaskSchema.parse(args);
             const task = await this.taskManager.claimTask(
               validated.taskId,
-              this.instanceId
+              this.instanceId,
+              this.role
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(task, null, 2)
+              }]
+            };
+          }
+
+          case 'claim_next_task': {
+            const validated = ClaimNextTaskSchema.parse(args);
+            const role = validated.role || this.role;
+            if (!role) {
+              throw new Error('No role given and CLAUDE_ROLE is not set');
+            }
+
+            const task = await this.taskManager.claimNextTask(this.instanceId, role);
+            return {
+              content: [{
+                type: 'text',
+                text: task ? JSON.stringify(task, null, 2) : `No eligible tasks for role ${role}`
+              }]
+            };
+          }
+
+          case 'renew_claim': {
+            const validated = RenewClaimSchema.parse(args);
+            const task = await this.taskManager.renewClaim(
+              validated.taskId,
+              this.instanceId,
+              this.role
             );
             return {
               content: [{
@@ -317,7 +1038,8 @@ export class MCPServerV2 {
             const task = await this.taskManager.completeTask(
               validated.taskId,
               this.instanceId,
-              validated.results
+              validated.results,
+              validated.reason
             );
             return {
               content: [{
@@ -327,9 +1049,170 @@ export class MCPServerV2 {
             };
           }
 
+          case 'fail_task': {
+            const validated = FailTaskSchema.parse(args);
+            const task = await this.taskManager.failTask(
+              validated.taskId,
+              this.instanceId,
+              validated.error,
+              { retryable: validated.retryable }
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(task, null, 2)
+              }]
+            };
+          }
+
+          case 'get_dead_letter_tasks': {
+            const tasks = await this.taskManager.getDeadLetterTasks();
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(tasks, null, 2)
+              }]
+            };
+          }
+
+          case 'requeue_task': {
+            const validated = RequeueTaskSchema.parse(args);
+            const task = await this.taskManager.requeueTask(
+              validated.taskId,
+              this.instanceId,
+              { reason: validated.reason, resetAttempts: validated.resetAttempts }
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(task, null, 2)
+              }]
+            };
+          }
+
+          case 'create_schedule': {
+            const validated = CreateScheduleSchema.parse(args);
+            const schedule = await this.taskManager.createSchedule(
+              validated.name,
+              validated.cron,
+              validated.task,
+              this.instanceId,
+              { enabled: validated.enabled }
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(schedule, null, 2)
+              }]
+            };
+          }
+
+          case 'list_schedules': {
+            const schedules = await this.taskManager.getSchedules();
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(schedules, null, 2)
+              }]
+            };
+          }
+
+          case 'request_approval': {
+            const validated = RequestApprovalSchema.parse(args);
+            const approval = await this.taskManager.requestApproval(
+              validated.action,
+              validated.summary,
+              this.instanceId,
+              { taskId: validated.taskId, files: validated.files }
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(approval, null, 2)
+              }]
+            };
+          }
+
+          case 'list_approvals': {
+            const validated = ListApprovalsSchema.parse(args);
+            const approvals = await this.taskManager.getApprovals(validated.status);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(approvals, null, 2)
+              }]
+            };
+          }
+
+          case 'approve': {
+            const validated = ApproveSchema.parse(args);
+            this.assertDecider(validated.id);
+            const approval = await this.taskManager.approve(validated.id, this.instanceId, validated.reason);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(approval, null, 2)
+              }]
+            };
+          }
+
+          case 'reject': {
+            const validated = RejectSchema.parse(args);
+            this.assertDecider(validated.id);
+            const approval = await this.taskManager.reject(validated.id, this.instanceId, validated.reason);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(approval, null, 2)
+              }]
+            };
+          }
+
+          case 'add_task_comment': {
+            const validated = AddTaskCommentSchema.parse(args);
+            const comment = await this.taskManager.addComment(
+              validated.taskId,
+              this.instanceId,
+              validated.body,
+              {
+                role: this.role,
+                references: validated.references,
+                replyTo: validated.replyTo
+              }
+            );
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(comment, null, 2)
+              }]
+            };
+          }
+
+          case 'get_task_comments': {
+            const validated = GetTaskCommentsSchema.parse(args);
+            const comments = await this.taskManager.getComments(validated.taskId);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(comments, null, 2)
+              }]
+            };
+          }
+
           // Context management
           case 'update_context': {
-            await this.contextManager.updateContext(args.updates);
+            const validated = UpdateContextSchema.parse(args);
+            if (validated.expectedVersion !== undefined || validated.expectedVersions) {
+              const version = await this.contextManager.compareAndSet(validated.updates, this.instanceId, { ...validated, role: this.role, client: true });
+              return {
+                content: [{
+                  type: 'text',
+                  text: `Context updated successfully (version ${version})`
+                }]
+              };
+            }
+
+            await this.contextManager.updateContext(validated.updates, this.instanceId, { ttl: validated.ttl, role: this.role, client: true });
             return {
               content: [{
                 type: 'text',
@@ -339,7 +1222,24 @@ export class MCPServerV2 {
           }
 
           case 'get_context': {
-            const context = await this.contextManager.getContext(args.paths);
+            const validated = GetContextSchema.parse(args);
+            const context = await this.contextManager.getContext(validated.paths);
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(validated.includeVersions
+                  ? { context, versions: this.contextManager.getVersions(validated.paths) }
+                  : context, null, 2)
+              }]
+            };
+          }
+
+          case 'get_context_at': {
+            const validated = GetContextAtSchema.parse(args);
+            const context = await this.contextManager.getContextAt(
+              validated.version !== undefined ? { version: validated.version } : { timestamp: validated.timestamp! },
+              validated.paths
+            );
             return {
               content: [{
                 type: 'text',
@@ -382,17 +1282,75 @@ export class MCPServerV2 {
         }
       } catch (error) {
         logger.error('MCPServerV2', `Tool execution failed: ${name}`, error);
-        throw error;
+        throw this.toMcpError(error, `Invalid arguments for ${name}`);
       }
     });
   }
 
+  private setupResourceHandlers(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: RESOURCES
+    }));
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      try {
+        return { contents: [await this.subscriptions.read(request.params.uri)] };
+      } catch (error) {
+        throw this.toMcpError(error, `Invalid resource ${request.params.uri}`);
+      }
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      try {
+        await this.subscriptions.subscribe(request.params.uri);
+        return {};
+      } catch (error) {
+        throw this.toMcpError(error, `Invalid resource ${request.params.uri}`);
+      }
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.unsubscribe(request.params.uri);
+      return {};
+    });
+  }
+
+  // Instances launched for a role are agents even before they register, and
+  // the task manager only knows registered ones
+  private assertDecider(approvalId: string): void {
+    if (this.role) {
+      throw new ApprovalDecisionError(approvalId, `${this.instanceId} runs as the ${this.role} role, approvals are decided by people`);
+    }
+  }
+
+  private toMcpError(error: unknown, invalidParamsMessage: string): unknown {
+    if (error instanceof CoordinationError) {
+      return new McpError(ErrorCode.InvalidRequest, error.message, {
+        code: error.code,
+        ...error.data
+      });
+    }
+
+    if (error instanceof z.ZodError) {
+      return new McpError(ErrorCode.InvalidParams, invalidParamsMessage, {
+        issues: error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      });
+    }
+
+    return error;
+  }
+
   async start(): Promise<void> {
     logger.info('MCPServerV2', 'Starting MCP server v2...');
     
     await this.contextManager.initialize();
     await this.ragSystem.initialize();
     await this.taskManager.initialize();
+    this.taskManager.startScheduler();
     
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
@@ -403,6 +1361,8 @@ export class MCPServerV2 {
   async stop(): Promise<void> {
     logger.info('MCPServerV2', 'Stopping MCP server v2...');
     
+    this.subscriptions.dispose();
+    await this.taskManager.shutdown();
     await this.contextManager.shutdown();
     await this.ragSystem.shutdown();
     
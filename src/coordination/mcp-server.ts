@@ -148,7 +148,7 @@ export class MCPServer {
             logger.info('MCPServer', `Agent ${validatedArgs.agentId} updating context`, validatedArgs.updates);
             
             const startTime = Date.now();
-            await this.contextManager.updateContext(validatedArgs.updates, validatedArgs.agentId);
+            await this.contextManager.updateContext(validatedArgs.updates, validatedArgs.agentId, { client: true });
             const latency = Date.now() - startTime;
             
             if (latency > config.performance.contextSyncMaxLatency) {
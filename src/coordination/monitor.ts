@@ -1,5 +1,8 @@
 import { ContextManager } from './context/context-manager.js';
+import { ContextSizeReport } from './context/context-namespaces.js';
 import { RecoverySystem } from './recovery/recovery-system.js';
+import { readContextTasks } from './task-records.js';
+import { Task } from '../types/tasks.js';
 import { logger } from '../utils/logger.js';
 import { config } from '../config/index.js';
 import * as process from 'process';
@@ -26,6 +29,7 @@ interface SystemMetrics {
     memoryUsage: number;
     cpuUsage: number;
   };
+  context: ContextSizeReport;
   uptime: number;
 }
 
@@ -90,13 +94,14 @@ export class Monitor {
       const metrics: SystemMetrics = {
         timestamp: new Date().toISOString(),
         agents: this.analyzeAgents(context.agentStates || {}),
-        tasks: this.analyzeTasks(context.taskQueue || []),
+        tasks: this.analyzeTasks(readContextTasks(context.globalState).tasks),
         performance: {
           contextSyncLatency: this.measureContextLatency(context),
           ragQueryTime: 0, // Would be tracked from actual queries
           memoryUsage: memUsage.heapUsed,
           cpuUsage: process.cpuUsage().user / 1000000 // Convert to seconds
         },
+        context: this.contextManager.getSizeReport(),
         uptime: Date.now() - this.startTime
       };
       
@@ -137,21 +142,12 @@ export class Monitor {
     };
   }
 
-  private analyzeTasks(taskQueue: any[]): any {
-    const statusCounts = {
-      pending: 0,
-      in_progress: 0,
-      completed: 0,
-      failed: 0
-    };
-    
+  private analyzeTasks(tasks: Task[]): SystemMetrics['tasks'] {
     let totalCompletionTime = 0;
     let completedCount = 0;
     
-    for (const task of taskQueue) {
-      statusCounts[task.status as keyof typeof statusCounts]++;
-      
-      if (task.status === 'completed' && task.completedAt && task.createdAt) {
+    for (const task of tasks) {
+      if (task.status === 'completed' && task.completedAt) {
         const completionTime = new Date(task.completedAt).getTime() - new Date(task.createdAt).getTime();
         totalCompletionTime += completionTime;
         completedCount++;
@@ -159,8 +155,11 @@ export class Monitor {
     }
     
     return {
-      total: taskQueue.length,
-      ...statusCounts,
+      total: tasks.length,
+      pending: tasks.filter(task => task.status === 'pending').length,
+      inProgress: tasks.filter(task => task.status === 'in_progress').length,
+      completed: tasks.filter(task => task.status === 'completed').length,
+      failed: tasks.filter(task => task.status === 'failed').length,
       avgCompletionTime: completedCount > 0 ? totalCompletionTime / completedCount : 0
     };
   }
@@ -193,6 +192,11 @@ export class Monitor {
     if (metrics.performance.contextSyncLatency > config.performance.contextSyncMaxLatency) {
       logger.warn('Monitor', `Context sync latency high: ${metrics.performance.contextSyncLatency}ms`);
     }
+
+    // Check context size
+    if (metrics.context.totalBytes > config.context.sizeWarning) {
+      logger.warn('Monitor', `Shared context is ${formatBytes(metrics.context.totalBytes)}, largest key: ${metrics.context.largestKeys[0]?.key}`);
+    }
   }
 
   private updateDisplay(): void {
@@ -250,6 +254,17 @@ export class Monitor {
     console.log(`   Context Sync: ${latest.performance.contextSyncLatency}ms`);
     console.log(`   RAG Query: ${latest.performance.ragQueryTime}ms`);
     console.log('');
+
+    // Context Size
+    console.log(`🗄️  CONTEXT (${formatBytes(latest.context.totalBytes)})`);
+    console.log(`   Global: ${formatBytes(latest.context.sections.globalState)}, Agents: ${formatBytes(latest.context.sections.agentStates)}, Expiring keys: ${latest.context.expiring}`);
+    latest.context.largestKeys.slice(0, 3).forEach(({ key, bytes }) => {
+      console.log(`   📦 ${key}: ${formatBytes(bytes)}`);
+    });
+    latest.context.namespaces.slice(0, 5).forEach(({ namespace, bytes, keys }) => {
+      console.log(`   👤 ${namespace}: ${formatBytes(bytes)} in ${keys} key(s)`);
+    });
+    console.log('');
     
     // Recent Alerts
     const recentAlerts = this.getRecentAlerts();
@@ -279,6 +294,10 @@ export class Monitor {
     if (latest.performance.memoryUsage > config.performance.maxMemoryUsage * 0.8) {
       alerts.push('Memory usage approaching limit');
     }
+
+    if (latest.context.totalBytes > config.context.sizeWarning) {
+      alerts.push(`Shared context is ${formatBytes(latest.context.totalBytes)}`);
+    }
     
     return alerts;
   }
@@ -304,6 +323,10 @@ export class Monitor {
   }
 }
 
+function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes}B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)}KB` : `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+}
+
 // Main entry point for standalone monitor
 if (import.meta.url === `file://${process.argv[1]}`) {
   const monitor = new Monitor();
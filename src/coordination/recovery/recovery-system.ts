@@ -3,6 +3,7 @@ import { spawn, ChildProcess } from 'child_process';
 import { logger } from '../../utils/logger.js';
 import { config } from '../../config/index.js';
 import { AgentInfo, AgentState } from '../../types/index.js';
+import { readContextTasks } from '../task-records.js';
 import { ContextManager } from '../context/context-manager.js';
 
 interface AgentProcess {
@@ -292,12 +293,13 @@ export class RecoverySystem extends EventEmitter {
 
   private handleContextUpdate(context: any): void {
     // Monitor for critical context changes that might require intervention
-    const taskQueue = context.taskQueue || [];
+    const queued = readContextTasks(context.globalState).tasks
+      .filter(task => task.status === 'pending' || task.status === 'blocked');
     
     // Check if tasks are piling up
-    if (taskQueue.length > 50) {
-      logger.warn('RecoverySystem', `Task queue growing large: ${taskQueue.length} tasks`);
-      this.emit('taskQueueAlert', { queueLength: taskQueue.length });
+    if (queued.length > 50) {
+      logger.warn('RecoverySystem', `Task queue growing large: ${queued.length} tasks`);
+      this.emit('taskQueueAlert', { queueLength: queued.length });
     }
   }
 
@@ -0,0 +1,173 @@
+import { createHash } from 'crypto';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+import { Task, TaskStatus, TaskStatusSchema } from '../types/tasks.js';
+import { ContextManager } from './context/context-manager.js';
+import { InvalidResourceUriError } from './errors.js';
+import { readContextTasks } from './task-records.js';
+
+// Shared context and task lists exposed as MCP resources:
+//   context://globalState/<path...>   a value in globalState, or all of it
+//   context://agentStates/<agentId>   an agent's state, or all of them
+//   tasks://<status|all>?role=&tag=&assignedTo=   matching tasks
+// Context path segments are URI path segments, so keys with dots or
+// slashes are written percent-encoded.
+
+export interface ResourceContents {
+  uri: string;
+  mimeType: string;
+  text: string;
+}
+
+type ResourceQuery =
+  | { kind: 'context'; pointer: string }
+  | { kind: 'tasks'; status?: TaskStatus; roles: string[]; tags: string[]; assignedTo?: string };
+
+export const RESOURCES = [
+  { uri: 'context://globalState', name: 'Global state', description: 'All shared context values', mimeType: 'application/json' },
+  { uri: 'context://agentStates', name: 'Agent states', description: 'State and heartbeat of every agent', mimeType: 'application/json' },
+  { uri: 'tasks://pending', name: 'Pending tasks', description: 'Tasks waiting to be claimed', mimeType: 'application/json' },
+  { uri: 'tasks://in_progress', name: 'Tasks in progress', description: 'Claimed tasks', mimeType: 'application/json' },
+  { uri: 'tasks://awaiting_approval', name: 'Tasks awaiting approval', description: 'Tasks gated by the automation level', mimeType: 'application/json' }
+];
+
+export const RESOURCE_TEMPLATES = [
+  { uriTemplate: 'context://globalState/{+path}', name: 'Context value', description: 'A value in globalState by path, one URI segment per key', mimeType: 'application/json' },
+  { uriTemplate: 'context://agentStates/{agentId}', name: 'Agent state', description: 'One agent\'s state', mimeType: 'application/json' },
+  { uriTemplate: 'tasks://{status}{?role,tag,assignedTo}', name: 'Tasks', description: 'Tasks by status (or "all"), role, tag and assignee', mimeType: 'application/json' }
+];
+
+// Tracks the resources a client subscribed to and tells it when one of them
+// changes, whether through this process or another one writing the same
+// context store. Notifications are coalesced: the first change to a resource
+// starts a debounce window and one notification goes out when it ends, if
+// the resource still differs from what the client was last told about.
+export class ResourceSubscriptions {
+  private fingerprints = new Map<string, string>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private onContextUpdated = () => this.checkAll();
+
+  constructor(
+    private contextManager: ContextManager,
+    private notify: (uri: string) => Promise<void>,
+    private debounce: number = config.server.notificationDebounce
+  ) {
+    this.contextManager.on('contextUpdated', this.onContextUpdated);
+  }
+
+  async subscribe(uri: string): Promise<void> {
+    this.fingerprints.set(uri, fingerprint(await this.resolve(uri)));
+    logger.debug('ResourceSubscriptions', `Subscribed to ${uri}`);
+  }
+
+  unsubscribe(uri: string): void {
+    this.fingerprints.delete(uri);
+    clearTimeout(this.timers.get(uri));
+    this.timers.delete(uri);
+  }
+
+  async read(uri: string): Promise<ResourceContents> {
+    return {
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify(await this.resolve(uri) ?? null, null, 2)
+    };
+  }
+
+  dispose(): void {
+    this.contextManager.off('contextUpdated', this.onContextUpdated);
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.fingerprints.clear();
+  }
+
+  private checkAll(): void {
+    for (const uri of this.fingerprints.keys()) {
+      if (!this.timers.has(uri)) {
+        this.timers.set(uri, setTimeout(() => this.flush(uri), this.debounce));
+      }
+    }
+  }
+
+  private async flush(uri: string): Promise<void> {
+    this.timers.delete(uri);
+    const previous = this.fingerprints.get(uri);
+    if (previous === undefined) {
+      return; // Unsubscribed meanwhile
+    }
+
+    try {
+      const current = fingerprint(await this.resolve(uri));
+      if (current === previous) {
+        return;
+      }
+      this.fingerprints.set(uri, current);
+      await this.notify(uri);
+    } catch (error) {
+      logger.warn('ResourceSubscriptions', `Failed to send update for ${uri}`, error);
+    }
+  }
+
+  private async resolve(uri: string): Promise<unknown> {
+    const query = parseResourceUri(uri);
+    if (query.kind === 'context') {
+      const result = await this.contextManager.getContext([query.pointer]);
+      return result[query.pointer];
+    }
+
+    const context = await this.contextManager.getContext();
+    return readContextTasks(context.globalState).tasks
+      .filter(task => matchesTaskQuery(task, query))
+      .sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt));
+  }
+}
+
+export function parseResourceUri(uri: string): ResourceQuery {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new InvalidResourceUriError(uri, 'not a URI');
+  }
+
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (url.protocol === 'context:') {
+    if (url.host !== 'globalState' && url.host !== 'agentStates') {
+      throw new InvalidResourceUriError(uri, 'expected context://globalState/... or context://agentStates/...');
+    }
+    const pointer = [url.host, ...segments]
+      .map(segment => segment.replace(/~/g, '~0').replace(/\//g, '~1'))
+      .join('/');
+    return { kind: 'context', pointer: `/${pointer}` };
+  }
+
+  if (url.protocol === 'tasks:') {
+    const status = url.host === 'all' ? undefined : TaskStatusSchema.safeParse(url.host);
+    if (status && !status.success) {
+      throw new InvalidResourceUriError(uri, `unknown task status "${url.host}"`);
+    }
+    return {
+      kind: 'tasks',
+      status: status?.data,
+      roles: url.searchParams.getAll('role'),
+      tags: url.searchParams.getAll('tag'),
+      assignedTo: url.searchParams.get('assignedTo') ?? undefined
+    };
+  }
+
+  throw new InvalidResourceUriError(uri, 'expected a context:// or tasks:// URI');
+}
+
+function matchesTaskQuery(task: Task, query: Extract<ResourceQuery, { kind: 'tasks' }>): boolean {
+  return (!query.status || task.status === query.status)
+    && (query.roles.length === 0 || (!!task.assignedRole && query.roles.includes(task.assignedRole)))
+    && (query.tags.length === 0 || query.tags.some(tag => task.tags.includes(tag)))
+    && (!query.assignedTo || task.assignedTo === query.assignedTo);
+}
+
+function fingerprint(value: unknown): string {
+  return createHash('sha1').update(JSON.stringify(value ?? null)).digest('hex');
+}
@@ -0,0 +1,125 @@
+import {
+  Task,
+  TaskStatus,
+  TaskDwellTimes,
+  TaskAnalytics,
+  DurationStats,
+  RoleThroughput,
+  RoleName
+} from '../types/tasks.js';
+
+const HOUR = 60 * 60 * 1000;
+const ESTIMATE_TOLERANCE = 0.2;
+
+export interface AnalyticsRange {
+  from?: Date;
+  to?: Date;
+}
+
+// Time in each status, replayed from the status changes in the task history.
+// Tasks start out pending at createdAt; the current status runs until `now`.
+export function computeDwellTimes(task: Task, now: Date = new Date()): TaskDwellTimes {
+  const dwell = emptyDwellTimes();
+  const changes = (task.history || []).filter(entry => entry.to);
+
+  let status: TaskStatus = changes[0]?.from || 'pending';
+  let since = new Date(task.createdAt).getTime();
+
+  for (const change of changes) {
+    const at = new Date(change.timestamp).getTime();
+    dwell[status] += Math.max(0, at - since);
+    status = change.to!;
+    since = at;
+  }
+  dwell[status] += Math.max(0, now.getTime() - since);
+
+  for (const key of Object.keys(dwell) as TaskStatus[]) {
+    dwell[key] = round(dwell[key] / HOUR);
+  }
+  return dwell;
+}
+
+// Report over tasks completed within the range (default: the last 7 days)
+export function buildTaskAnalytics(tasks: Iterable<Task>, range: AnalyticsRange = {}, now: Date = new Date()): TaskAnalytics {
+  const to = range.to || now;
+  const from = range.from || new Date(to.getTime() - 7 * 24 * HOUR);
+
+  const completed = Array.from(tasks).filter(task => {
+    if (task.status !== 'completed' || !task.completedAt) return false;
+    const completedAt = new Date(task.completedAt).getTime();
+    return completedAt >= from.getTime() && completedAt <= to.getTime();
+  });
+
+  const leadTimes = completed.map(task => hoursBetween(task.createdAt, task.completedAt!));
+  const cycleTimes = completed
+    .map(task => {
+      const started = task.history?.find(entry => entry.to === 'in_progress');
+      return started ? hoursBetween(started.timestamp, task.completedAt!) : undefined;
+    })
+    .filter((hours): hours is number => hours !== undefined);
+
+  const days = Math.max((to.getTime() - from.getTime()) / (24 * HOUR), 1 / 24);
+  const throughputByRole = {} as Record<RoleName | 'unassigned', RoleThroughput>;
+  for (const role of ['auditor', 'implementer', 'validator', 'unassigned'] as const) {
+    const count = completed.filter(task => (task.assignedRole || 'unassigned') === role).length;
+    throughputByRole[role] = { completed: count, perDay: round(count / days) };
+  }
+
+  const dwellTimes = completed.map(task => computeDwellTimes(task, new Date(task.completedAt!)));
+  const averageDwellTimes = emptyDwellTimes();
+  for (const status of Object.keys(averageDwellTimes) as TaskStatus[]) {
+    averageDwellTimes[status] = average(dwellTimes.map(dwell => dwell[status]));
+  }
+
+  // Actual effort is time spent in progress, compared with the estimate
+  const ratios = completed
+    .map((task, index) => task.estimate ? dwellTimes[index].in_progress / task.estimate : undefined)
+    .filter((ratio): ratio is number => ratio !== undefined);
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    completed: completed.length,
+    leadTime: durationStats(leadTimes),
+    cycleTime: durationStats(cycleTimes),
+    throughputByRole,
+    averageDwellTimes,
+    estimateAccuracy: {
+      estimated: ratios.length,
+      averageRatio: average(ratios),
+      withinTolerance: ratios.filter(ratio => Math.abs(ratio - 1) <= ESTIMATE_TOLERANCE).length
+    }
+  };
+}
+
+function emptyDwellTimes(): TaskDwellTimes {
+  return { awaiting_approval: 0, pending: 0, in_progress: 0, blocked: 0, completed: 0, cancelled: 0, failed: 0 };
+}
+
+function durationStats(hours: number[]): DurationStats {
+  const sorted = [...hours].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    average: average(sorted),
+    median: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9)
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  return round(sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)]);
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) return 0;
+  return round(values.reduce((sum, value) => sum + value, 0) / values.length);
+}
+
+function hoursBetween(start: string, end: string): number {
+  return (new Date(end).getTime() - new Date(start).getTime()) / HOUR;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,142 @@
+import { Task, TaskGraph, TaskGraphEdge, BlockedTask } from '../types/tasks.js';
+
+const isFinished = (task: Task) => task.status === 'completed' || task.status === 'cancelled';
+
+// Returns the cycle created by giving `taskId` these dependencies, or null.
+// The cycle starts and ends with `taskId`.
+export function findDependencyCycle(
+  tasks: Map<string, Task>,
+  taskId: string,
+  dependencies: string[]
+): string[] | null {
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === taskId) {
+      return [...path, id];
+    }
+    if (visited.has(id)) {
+      return null;
+    }
+    visited.add(id);
+
+    for (const depId of tasks.get(id)?.dependencies || []) {
+      const cycle = visit(depId, [...path, id]);
+      if (cycle) return cycle;
+    }
+    return null;
+  };
+
+  for (const depId of dependencies) {
+    const cycle = visit(depId, [taskId]);
+    if (cycle) return cycle;
+  }
+
+  return null;
+}
+
+export function buildTaskGraph(tasks: Map<string, Task>, taskIds?: Iterable<string>): TaskGraph {
+  const included = new Set(taskIds ?? tasks.keys());
+  const nodes = Array.from(included)
+    .map(id => tasks.get(id))
+    .filter((task): task is Task => !!task)
+    .map(task => ({
+      id: task.id,
+      title: task.title,
+      status: task.status,
+      priority: task.priority,
+      assignedRole: task.assignedRole
+    }));
+
+  const edges: TaskGraphEdge[] = [];
+  const blockedFrontier: BlockedTask[] = [];
+
+  for (const node of nodes) {
+    const task = tasks.get(node.id)!;
+    const dependencies = task.dependencies || [];
+
+    for (const depId of dependencies) {
+      if (included.has(depId)) {
+        edges.push({ from: depId, to: task.id });
+      }
+    }
+
+    if (isFinished(task) || dependencies.length === 0) continue;
+
+    const missing = dependencies.filter(depId => !tasks.has(depId));
+    const waitingOn = dependencies.filter(depId => {
+      const dep = tasks.get(depId);
+      return dep && dep.status !== 'completed';
+    });
+
+    if (missing.length > 0 || waitingOn.length > 0) {
+      blockedFrontier.push({ taskId: task.id, waitingOn, missing });
+    }
+  }
+
+  return {
+    nodes,
+    edges,
+    criticalPath: findCriticalPath(tasks, included),
+    blockedFrontier
+  };
+}
+
+// Longest dependency chain counted in unfinished tasks
+function findCriticalPath(tasks: Map<string, Task>, included: Set<string>): string[] {
+  const memo = new Map<string, string[]>();
+
+  const longestTo = (id: string): string[] => {
+    const cached = memo.get(id);
+    if (cached) return cached;
+
+    // Guards against cycles in data written before validation existed
+    memo.set(id, []);
+
+    const task = tasks.get(id)!;
+    let best: string[] = [];
+    for (const depId of task.dependencies || []) {
+      if (!included.has(depId) || !tasks.has(depId)) continue;
+      const chain = longestTo(depId);
+      if (chain.length > best.length) best = chain;
+    }
+
+    const path = isFinished(task) ? best : [...best, id];
+    memo.set(id, path);
+    return path;
+  };
+
+  let critical: string[] = [];
+  for (const id of included) {
+    if (!tasks.has(id)) continue;
+    const path = longestTo(id);
+    if (path.length > critical.length) critical = path;
+  }
+
+  return critical;
+}
+
+// Every task connected to `taskId` through dependencies, in either direction
+export function connectedTaskIds(tasks: Map<string, Task>, taskId: string): Set<string> {
+  const dependents = new Map<string, string[]>();
+  for (const task of tasks.values()) {
+    for (const depId of task.dependencies || []) {
+      dependents.set(depId, [...(dependents.get(depId) || []), task.id]);
+    }
+  }
+
+  const result = new Set<string>();
+  const walk = (id: string, next: (id: string) => string[]) => {
+    for (const other of next(id)) {
+      if (result.has(other)) continue;
+      result.add(other);
+      walk(other, next);
+    }
+  };
+
+  result.add(taskId);
+  walk(taskId, id => tasks.get(id)?.dependencies || []);
+  walk(taskId, id => dependents.get(id) || []);
+
+  return result;
+}
@@ -0,0 +1,313 @@
+import { Task, TaskPriority, TaskStatus, RoleName } from '../types/tasks.js';
+import { parseTask } from './task-records.js';
+
+export type TaskExportFormat = 'jsonl' | 'csv' | 'markdown';
+
+// A task as read from an import file. IDs are those of the source system
+// and get remapped on import.
+export interface TaskImportRecord {
+  sourceId: string;
+  title: string;
+  description: string;
+  tags: string[];
+  status: TaskStatus;
+  priority: TaskPriority;
+  assignedRole?: RoleName;
+  dependencies: string[];
+  parentId?: string;
+  task?: Task; // Full original task, only for lossless formats
+}
+
+const STATUSES: TaskStatus[] = ['awaiting_approval', 'pending', 'in_progress', 'blocked', 'completed', 'cancelled', 'failed'];
+const ROLES: RoleName[] = ['auditor', 'implementer', 'validator'];
+
+const CSV_COLUMNS = [
+  'id', 'title', 'description', 'tags', 'status', 'priority',
+  'assignedRole', 'dependencies', 'parentId', 'createdAt', 'completedAt'
+] as const;
+
+export function detectFormat(fileName: string): TaskExportFormat | undefined {
+  if (/\.jsonl$/i.test(fileName)) return 'jsonl';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  if (/\.(md|markdown)$/i.test(fileName)) return 'markdown';
+  return undefined;
+}
+
+export function serializeTasks(tasks: Task[], format: TaskExportFormat): string {
+  switch (format) {
+    case 'jsonl':
+      return tasks.map(task => JSON.stringify(task)).join('\n') + '\n';
+    case 'csv':
+      return toCsv(tasks);
+    case 'markdown':
+      return toMarkdown(tasks);
+    default:
+      throw new Error(`Unsupported task format: ${format}`);
+  }
+}
+
+export function parseTasks(content: string, format: TaskExportFormat): TaskImportRecord[] {
+  switch (format) {
+    case 'jsonl':
+      return fromJsonLines(content);
+    case 'csv':
+      return fromCsv(content);
+    case 'markdown':
+      return fromMarkdown(content);
+    default:
+      throw new Error(`Unsupported task format: ${format}`);
+  }
+}
+
+// JSON Lines
+
+function fromJsonLines(content: string): TaskImportRecord[] {
+  return content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line, index) => {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${index + 1}`);
+      }
+
+      // Lines in the legacy task shape are upgraded like context files are
+      let task: Task;
+      try {
+        task = parseTask(raw);
+      } catch (error) {
+        throw new Error(`Task on line ${index + 1} is invalid: ${(error as Error).message}`);
+      }
+      return {
+        sourceId: task.id,
+        title: task.title,
+        description: task.description,
+        tags: task.tags,
+        status: task.status,
+        priority: task.priority,
+        assignedRole: task.assignedRole,
+        dependencies: task.dependencies || [],
+        parentId: task.parentId,
+        task
+      };
+    });
+}
+
+// CSV (RFC 4180, list columns separated by semicolons)
+
+function toCsv(tasks: Task[]): string {
+  const rows = tasks.map(task => [
+    task.id,
+    task.title,
+    task.description,
+    task.tags.join(';'),
+    task.status,
+    String(task.priority),
+    task.assignedRole || '',
+    (task.dependencies || []).join(';'),
+    task.parentId || '',
+    task.createdAt,
+    task.completedAt || ''
+  ]);
+
+  return [Array.from(CSV_COLUMNS), ...rows]
+    .map(row => row.map(escapeCsv).join(','))
+    .join('\n') + '\n';
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function fromCsv(content: string): TaskImportRecord[] {
+  const [header, ...rows] = parseCsvRows(content);
+  if (!header) return [];
+
+  const column = (row: string[], name: string) => row[header.indexOf(name)]?.trim() || '';
+  const list = (value: string) => value.split(';').map(item => item.trim()).filter(Boolean);
+
+  return rows
+    .filter(row => row.some(cell => cell.trim()))
+    .map((row, index) => {
+      const title = column(row, 'title');
+      if (!title) {
+        throw new Error(`CSV row ${index + 2} has no title`);
+      }
+      return {
+        sourceId: column(row, 'id') || `row-${index + 2}`,
+        title,
+        description: column(row, 'description'),
+        tags: list(column(row, 'tags')),
+        status: toStatus(column(row, 'status')),
+        priority: toPriority(column(row, 'priority')),
+        assignedRole: toRole(column(row, 'assignedRole')),
+        dependencies: list(column(row, 'dependencies')),
+        parentId: column(row, 'parentId') || undefined
+      };
+    });
+}
+
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Markdown checklists, in the style of todo.md. Headings group items into
+// epics, nested items become subtasks, and task metadata rides along in a
+// trailing HTML comment.
+
+function toMarkdown(tasks: Task[]): string {
+  const ids = new Set(tasks.map(task => task.id));
+  const childrenOf = (parentId?: string) =>
+    tasks.filter(task => (task.parentId && ids.has(task.parentId) ? task.parentId : undefined) === parentId);
+
+  const lines: string[] = ['# Tasks', ''];
+  const render = (task: Task, depth: number) => {
+    const done = task.status === 'completed' || task.status === 'cancelled';
+    const meta = [
+      `id: ${task.id}`,
+      `status: ${task.status}`,
+      `priority: ${task.priority}`,
+      task.tags.length > 0 ? `tags: ${task.tags.join(', ')}` : '',
+      task.assignedRole ? `role: ${task.assignedRole}` : '',
+      task.dependencies?.length ? `depends: ${task.dependencies.join(', ')}` : ''
+    ].filter(Boolean).join(' | ');
+
+    lines.push(`${'  '.repeat(depth)}- [${done ? 'x' : ' '}] ${task.title} <!-- ${meta} -->`);
+    childrenOf(task.id).forEach(child => render(child, depth + 1));
+  };
+
+  childrenOf(undefined).forEach(task => render(task, 0));
+  return lines.join('\n') + '\n';
+}
+
+interface MarkdownNode {
+  record: TaskImportRecord;
+  level: number; // Heading level, or 10 + indent for list items
+  hasItems: boolean;
+}
+
+function fromMarkdown(content: string): TaskImportRecord[] {
+  const nodes: MarkdownNode[] = [];
+  const stack: MarkdownNode[] = [];
+  let counter = 0;
+
+  const open = (node: MarkdownNode) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    node.record.parentId = parent?.record.sourceId;
+    nodes.push(node);
+    stack.push(node);
+  };
+
+  for (const line of content.split('\n')) {
+    const heading = line.match(/^(#{2,6})\s+(.+?)\s*$/);
+    if (heading) {
+      open({ record: newRecord(`md-${++counter}`, heading[2]), level: heading[1].length, hasItems: false });
+      continue;
+    }
+
+    const item = line.match(/^(\s*)[-*]\s+\[([ xX])\]\s+(.+?)\s*$/);
+    if (!item) continue;
+
+    const { text, meta } = splitMeta(item[3]);
+    const record = newRecord(meta.id || `md-${++counter}`, text);
+    record.status = meta.status ? toStatus(meta.status) : item[2] === ' ' ? 'pending' : 'completed';
+    record.priority = toPriority(meta.priority);
+    record.tags = meta.tags ? meta.tags.split(',').map(tag => tag.trim()).filter(Boolean) : [];
+    record.assignedRole = toRole(meta.role);
+    record.dependencies = meta.depends ? meta.depends.split(',').map(id => id.trim()).filter(Boolean) : [];
+
+    const node = { record, level: 10 + item[1].replace(/\t/g, '  ').length, hasItems: true };
+    open(node);
+    stack.forEach(ancestor => { ancestor.hasItems = true; });
+  }
+
+  // Headings without any checklist items underneath are just prose
+  const kept = new Set(nodes.filter(node => node.hasItems).map(node => node.record.sourceId));
+  return nodes
+    .filter(node => kept.has(node.record.sourceId))
+    .map(node => node.record);
+}
+
+function newRecord(sourceId: string, title: string): TaskImportRecord {
+  const cleanTitle = title.replace(/`/g, '').trim();
+  return {
+    sourceId,
+    title: cleanTitle,
+    description: cleanTitle,
+    tags: [],
+    status: 'pending',
+    priority: 3,
+    dependencies: []
+  };
+}
+
+function splitMeta(text: string): { text: string; meta: Record<string, string> } {
+  const match = text.match(/^(.*?)\s*<!--(.*)-->\s*$/);
+  if (!match) return { text, meta: {} };
+
+  const meta: Record<string, string> = {};
+  for (const pair of match[2].split('|')) {
+    const separator = pair.indexOf(':');
+    if (separator > 0) {
+      meta[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+    }
+  }
+  return { text: match[1], meta };
+}
+
+function toStatus(value?: string): TaskStatus {
+  return STATUSES.includes(value as TaskStatus) ? value as TaskStatus : 'pending';
+}
+
+function toPriority(value?: string | number): TaskPriority {
+  const priority = Number(value);
+  return priority >= 1 && priority <= 5 ? Math.round(priority) as TaskPriority : 3;
+}
+
+function toRole(value?: string): RoleName | undefined {
+  return ROLES.includes(value as RoleName) ? value as RoleName : undefined;
+}
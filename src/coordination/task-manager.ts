@@ -1,32 +1,119 @@
-import { Task, TaskFilter, TaskStatus, TaskUpdate, TaskPriority } from '../types/tasks.js';
-import { ContextManager } from './context-manager.js';
+import { Task, TaskFilter, TaskStatus, TaskUpdate, TaskPriority, TaskHistoryEntry, TaskGraph, RoleName, SubtaskInput, TaskComment, TaskCommentThread, TaskFileReference, ScheduledTask, CreateTaskOptions, CreatedTask, DuplicateMatch, DuplicatePolicy, TaskTemplate, AcceptanceCriterion, AcceptanceCriterionStatus, TaskImportResult, TaskAnalytics, TaskDwellTimes, RetryPolicy, DeadLetterTask, CancelCascade, TaskSearchOptions, TaskSearchResult, TaskSearchHit, TaskSchedule, ScheduleRun, ApprovalAction, ApprovalRequest, ApprovalStatus } from '../types/tasks.js';
+import { getRoleConfig } from '../types/roles.js';
+import { assertTransition, canTransition } from './task-state-machine.js';
+import { SchedulingPolicy, createSchedulingPolicy } from './task-scheduling.js';
+import { buildTaskGraph, connectedTaskIds, findDependencyCycle } from './task-graph.js';
+import { loadTaskTemplates, renderTemplateDescription } from './task-templates.js';
+import { TaskExportFormat, parseTasks, serializeTasks } from './task-io.js';
+import { AnalyticsRange, buildTaskAnalytics, computeDwellTimes } from './task-analytics.js';
+import { isBackingOff, resolveRetryPolicy, retryDelay } from './task-retry.js';
+import { highlight, scoreTaskKeywords, tokenizeQuery } from './task-search.js';
+import { approvalKey, readContextApprovals, readContextSchedules, readContextTasks, scheduleKey, taskKey } from './task-records.js';
+import { ApprovalPolicy } from './approval-policy.js';
+import { nextCronRun } from './task-schedules.js';
+import {
+  ApprovalDecisionError,
+  ApprovalRequiredError,
+  ClaimNotHeldError,
+  ClaimedTaskReassignError,
+  DependencyCycleError,
+  DependencyNotFoundError,
+  DuplicateTaskError,
+  InvalidScheduleError,
+  MissingTemplateFieldsError,
+  ReservedStatusError,
+  RetryBackoffError,
+  UnmetAcceptanceCriteriaError
+} from './errors.js';
+import { ContextManager } from './context/context-manager.js';
 import { RAGSystem } from './rag-system.js';
+import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
 import { v4 as uuidv4 } from 'uuid';
 
+// Actor recorded on tasks the scheduler creates
+const SCHEDULER_ACTOR = 'scheduler';
+
+// Statuses only reached through their own path: a claim takes a lease and a
+// failure counts an attempt against the retry policy
+const RESERVED_STATUSES: Partial<Record<TaskStatus, 'claimTask' | 'failTask'>> = {
+  in_progress: 'claimTask',
+  failed: 'failTask'
+};
+
 export class TaskManager {
   private contextManager: ContextManager;
   private ragSystem: RAGSystem;
   private taskCache: Map<string, Task> = new Map();
+  private invalidTaskKeys = '';
+  private leaseSweepInterval?: NodeJS.Timeout;
+  private scheduleInterval?: NodeJS.Timeout;
+  private schedulingPolicy: SchedulingPolicy;
+  private approvalPolicy?: ApprovalPolicy;
+  private decidingApprovals = new Set<string>(); // Tasks whose approval is being applied
+  private templates: Map<string, TaskTemplate> = new Map();
+  // Depth of `atomically` calls in progress, which refresh the cache themselves
+  private atomicDepth = 0;
+  // Other processes' writes, picked up by the context manager
+  private onContextUpdated = () => {
+    if (this.atomicDepth === 0) {
+      this.refresh().catch(error => logger.warn('TaskManager', 'Failed to refresh tasks', error));
+    }
+  };
 
-  constructor(contextManager: ContextManager, ragSystem: RAGSystem) {
+  constructor(
+    contextManager: ContextManager,
+    ragSystem: RAGSystem,
+    schedulingPolicy: SchedulingPolicy = createSchedulingPolicy()
+  ) {
     this.contextManager = contextManager;
     this.ragSystem = ragSystem;
+    this.schedulingPolicy = schedulingPolicy;
+  }
+
+  setSchedulingPolicy(policy: SchedulingPolicy): void {
+    this.schedulingPolicy = policy;
+    logger.info('TaskManager', `Scheduling policy set to ${policy.name}`);
+  }
+
+  // Without a policy nothing needs approval, e.g. for tasks created from the CLI
+  setApprovalPolicy(policy: ApprovalPolicy | undefined): void {
+    this.approvalPolicy = policy;
+    logger.info('TaskManager', `Approval policy set to ${policy ? policy.level : 'none'}`);
   }
 
   async initialize(): Promise<void> {
     logger.info('TaskManager', 'Initializing task manager');
     
     // Load existing tasks from context
-    const context = await this.contextManager.getContext();
-    const tasks = context.tasks || {};
-    
-    // Populate cache
-    Object.values(tasks).forEach((task: any) => {
-      this.taskCache.set(task.id, task);
-    });
+    await this.refresh();
     
     logger.info('TaskManager', `Loaded ${this.taskCache.size} existing tasks`);
+    this.contextManager.on('contextUpdated', this.onContextUpdated);
+
+    this.templates = loadTaskTemplates();
+
+    // Periodically return tasks with expired leases to the queue and block
+    // tasks whose dependencies have disappeared
+    this.leaseSweepInterval = setInterval(() => {
+      this.expireLeases()
+        .then(() => this.blockOrphanedTasks())
+        .catch(error => {
+          logger.error('TaskManager', 'Lease sweep failed', error);
+        });
+    }, config.tasks.leaseSweepInterval);
+  }
+
+  async shutdown(): Promise<void> {
+    this.contextManager.off('contextUpdated', this.onContextUpdated);
+    if (this.leaseSweepInterval) {
+      clearInterval(this.leaseSweepInterval);
+      this.leaseSweepInterval = undefined;
+    }
+    if (this.scheduleInterval) {
+      clearInterval(this.scheduleInterval);
+      this.scheduleInterval = undefined;
+    }
   }
 
   async createTask(
@@ -34,96 +121,435 @@ export class TaskManager {
     description: string,
     tags: string[],
     createdBy: string,
-    options: {
-      priority?: TaskPriority;
-      assignedRole?: Task['assignedRole'];
-      dependencies?: string[];
-      context?: string;
-    } = {}
+    options: CreateTaskOptions = {}
+  ): Promise<CreatedTask> {
+    this.validateEstimate(options.estimate);
+
+    const duplicatePolicy = options.duplicatePolicy || config.tasks.duplicatePolicy;
+    const duplicates = duplicatePolicy === 'off' ? [] : await this.findDuplicateTasks(title, description);
+
+    if (duplicates.length > 0) {
+      if (duplicatePolicy === 'reject') {
+        throw new DuplicateTaskError(title, duplicates);
+      }
+      if (duplicatePolicy === 'merge') {
+        const merged = await this.mergeDuplicate(duplicates[0].taskId, description, tags, createdBy, options.priority);
+        return { ...merged, duplicates, merged: true };
+      }
+    }
+
+    // Checked and written against the latest tasks
+    const task = await this.atomically(() =>
+      this.insertTask(title, description, tags, createdBy, options, duplicates)
+    );
+    await this.recordCreated(task);
+
+    logger.info('TaskManager', `Created task ${task.id}: ${title}`);
+    return { ...task, duplicates, merged: false };
+  }
+
+  // Runs under the lock; the caller stores the creation with
+  // `recordCreated` once the lock is released
+  private async insertTask(
+    title: string,
+    description: string,
+    tags: string[],
+    createdBy: string,
+    options: CreateTaskOptions,
+    duplicates: DuplicateMatch[] = []
   ): Promise<Task> {
+    const taskId = `task-${uuidv4()}`;
+    this.validateDependencies(taskId, options.dependencies);
+    const parent = options.parentId ? this.taskCache.get(options.parentId) : undefined;
+    if (options.parentId && !parent) {
+      throw new Error(`Parent task ${options.parentId} not found`);
+    }
+
     const task: Task = {
-      id: `task-${uuidv4()}`,
+      id: taskId,
       title,
       description,
+      type: options.type,
       tags,
       status: 'pending',
       priority: options.priority || 3,
       assignedRole: options.assignedRole,
       dependencies: options.dependencies,
+      parentId: options.parentId,
+      possibleDuplicates: duplicates.length > 0 ? duplicates.map(match => match.taskId) : undefined,
+      templateId: options.templateId,
+      scheduleId: options.scheduleId,
+      fields: options.fields,
+      estimate: options.estimate,
+      retryPolicy: options.retryPolicy,
+      acceptanceCriteria: options.acceptanceCriteria?.map((description, index) => ({
+        id: `ac-${index + 1}`,
+        description,
+        status: 'open'
+      })),
       context: options.context,
       createdBy,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString()
     };
 
-    // Store in cache
-    this.taskCache.set(task.id, task);
+    const approvalReason = this.approvalPolicy?.reviewTask(task);
+    if (approvalReason) {
+      const approval = await this.saveApproval('task', `Create task: ${title}`, createdBy, {
+        taskId,
+        policyReason: approvalReason
+      });
+      task.status = 'awaiting_approval';
+      task.approvalId = approval.id;
+    }
 
-    // Store in context
-    await this.contextManager.updateContext({
-      [`tasks.${task.id}`]: task
-    });
+    await this.saveTask(task, createdBy);
 
+    if (parent) {
+      await this.saveTask({
+        ...parent,
+        children: [...(parent.children || []), task.id],
+        updatedAt: new Date().toISOString()
+      }, createdBy);
+      await this.rollUpParent(task, createdBy);
+    }
+
+    return task;
+  }
+
+  private async recordCreated(task: Task): Promise<void> {
     // Store task creation in RAG for learning
     await this.ragSystem.store(
-      `Task created: ${title}\nDescription: ${description}\nTags: ${tags.join(', ')}`,
+      `Task created: ${task.title}\nDescription: ${task.description}\nTags: ${task.tags.join(', ')}`,
       {
         type: 'task_creation',
         taskId: task.id,
-        createdBy,
-        tags
+        createdBy: task.createdBy,
+        tags: task.tags
       }
     );
+  }
 
-    logger.info('TaskManager', `Created task ${task.id}: ${title}`);
-    return task;
+  getTemplates(): TaskTemplate[] {
+    return Array.from(this.templates.values());
   }
 
-  async updateTask(taskId: string, updates: TaskUpdate, updatedBy: string): Promise<Task> {
-    const task = this.taskCache.get(taskId);
-    if (!task) {
-      throw new Error(`Task ${taskId} not found`);
+  async createTaskFromTemplate(
+    templateId: string,
+    title: string,
+    fields: Record<string, string>,
+    createdBy: string,
+    options: {
+      description?: string;
+      tags?: string[];
+      priority?: TaskPriority;
+      assignedRole?: Task['assignedRole'];
+      dependencies?: string[];
+      parentId?: string;
+      acceptanceCriteria?: string[]; // Added to the template's criteria
+      estimate?: number;
+    } = {}
+  ): Promise<CreatedTask> {
+    const template = this.templates.get(templateId);
+    if (!template) {
+      throw new Error(`Task template ${templateId} not found`);
     }
 
-    // Apply updates
-    const updatedTask: Task = {
-      ...task,
-      ...updates,
-      updatedAt: new Date().toISOString()
-    };
+    const missing = template.requiredFields.filter(field => !fields[field]?.trim());
+    if (missing.length > 0) {
+      throw new MissingTemplateFieldsError(templateId, missing);
+    }
+
+    return this.createTask(
+      title,
+      renderTemplateDescription(options.description || template.description || '', fields),
+      Array.from(new Set([...template.defaultTags, ...(options.tags || [])])),
+      createdBy,
+      {
+        priority: options.priority || template.defaultPriority,
+        assignedRole: options.assignedRole || template.defaultRole,
+        dependencies: options.dependencies,
+        parentId: options.parentId,
+        acceptanceCriteria: [...template.acceptanceCriteria, ...(options.acceptanceCriteria || [])],
+        templateId,
+        fields,
+        estimate: options.estimate
+      }
+    );
+  }
 
-    // Handle status-specific updates
-    if (updates.status === 'completed' && !task.completedAt) {
-      updatedTask.completedAt = new Date().toISOString();
+  async updateAcceptanceCriterion(
+    taskId: string,
+    criterionId: string,
+    status: AcceptanceCriterionStatus,
+    updatedBy: string,
+    note?: string
+  ): Promise<Task> {
+    return this.atomically(async () => {
+      const task = await this.getTask(taskId);
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+
+      const criterion = task.acceptanceCriteria?.find(item => item.id === criterionId);
+      if (!criterion) {
+        throw new Error(`Acceptance criterion ${criterionId} not found on task ${taskId}`);
+      }
+
+      if (status === 'waived' && !note?.trim()) {
+        throw new Error(`Waiving acceptance criterion ${criterionId} requires a reason`);
+      }
+
+      const now = new Date().toISOString();
+      const updatedTask: Task = {
+        ...task,
+        acceptanceCriteria: task.acceptanceCriteria!.map(item =>
+          item.id === criterionId ? { ...item, status, note, updatedBy, updatedAt: now } : item
+        ),
+        updatedAt: now
+      };
+
+      await this.saveTask(updatedTask, updatedBy);
+
+      logger.info('TaskManager', `Acceptance criterion ${criterionId} on ${taskId} marked ${status} by ${updatedBy}`);
+      return updatedTask;
+    });
+  }
+
+  // Open tasks that look like the same piece of work, most similar first
+  async findDuplicateTasks(title: string, description: string): Promise<DuplicateMatch[]> {
+    const matches = new Map<string, DuplicateMatch>();
+    const isOpen = (task?: Task) => !!task && task.status !== 'completed' && task.status !== 'cancelled';
+
+    const normalizedTitle = title.trim().toLowerCase();
+    for (const task of this.taskCache.values()) {
+      if (isOpen(task) && task.title.trim().toLowerCase() === normalizedTitle) {
+        matches.set(task.id, { taskId: task.id, title: task.title, score: 1 });
+      }
     }
 
-    // Update cache
-    this.taskCache.set(taskId, updatedTask);
+    try {
+      const result = await this.ragSystem.query(
+        `Task created: ${title}\nDescription: ${description}`,
+        10,
+        config.tasks.duplicateThreshold
+      );
 
-    // Update context
-    await this.contextManager.updateContext({
-      [`tasks.${taskId}`]: updatedTask
+      result.documents.forEach((doc, index) => {
+        const task = this.taskCache.get(doc.metadata.taskId);
+        if (doc.metadata.type !== 'task_creation' || !task || !isOpen(task) || matches.has(task.id)) {
+          return;
+        }
+        matches.set(task.id, { taskId: task.id, title: task.title, score: result.scores[index] });
+      });
+    } catch (error) {
+      logger.warn('TaskManager', 'Duplicate check against RAG failed', error);
+    }
+
+    return Array.from(matches.values()).sort((a, b) => b.score - a.score);
+  }
+
+  private async mergeDuplicate(
+    taskId: string,
+    description: string,
+    tags: string[],
+    mergedBy: string,
+    priority?: TaskPriority
+  ): Promise<Task> {
+    return this.atomically(async () => {
+      const task = this.taskCache.get(taskId)!;
+      const now = new Date().toISOString();
+
+      const mergedTask: Task = {
+        ...task,
+        tags: Array.from(new Set([...task.tags, ...tags])),
+        description: task.description.includes(description)
+          ? task.description
+          : `${task.description}\n\nAlso reported by ${mergedBy}:\n${description}`,
+        priority: Math.max(task.priority, priority || 1) as TaskPriority,
+        history: this.appendHistory(task, {
+          event: 'merged',
+          actor: mergedBy,
+          timestamp: now,
+          reason: 'Duplicate task merged into this one'
+        }),
+        updatedAt: now
+      };
+
+      await this.saveTask(mergedTask, mergedBy);
+
+      logger.info('TaskManager', `Merged duplicate task from ${mergedBy} into ${taskId}`);
+      return mergedTask;
+    });
+  }
+
+  async createSubtasks(parentId: string, subtasks: SubtaskInput[], createdBy: string): Promise<Task[]> {
+    const parent = await this.getTask(parentId);
+    if (!parent) {
+      throw new Error(`Task ${parentId} not found`);
+    }
+
+    const created: Task[] = [];
+    for (const subtask of subtasks) {
+      created.push(await this.createTask(
+        subtask.title,
+        subtask.description,
+        subtask.tags || parent.tags,
+        createdBy,
+        {
+          priority: subtask.priority || parent.priority,
+          assignedRole: subtask.assignedRole,
+          dependencies: subtask.dependencies,
+          estimate: subtask.estimate,
+          context: parent.context,
+          parentId,
+          duplicatePolicy: 'off' // Siblings in one epic often read alike
+        }
+      ));
+    }
+
+    logger.info('TaskManager', `Created ${created.length} subtasks under ${parentId}`);
+    return created;
+  }
+
+  async updateTask(taskId: string, updates: TaskUpdate, updatedBy: string): Promise<Task> {
+    return this.applyUpdate(taskId, updates, updatedBy, { reserved: true, holder: true });
+  }
+
+  // `reserved` refuses the statuses with their own paths, which those paths
+  // skip; `holder` keeps everyone but the claim holder from moving a task
+  // that is being worked on, which operators on the CLI may do, and keeps
+  // claimed tasks from being reassigned
+  private async applyUpdate(
+    taskId: string,
+    updates: TaskUpdate,
+    updatedBy: string,
+    checks: { reserved?: boolean; holder?: boolean } = {}
+  ): Promise<Task> {
+    const { reason, cascade, ...changes } = updates;
+    const { task, updatedTask, statusChanged } = await this.atomically(async () => {
+      const task = this.taskCache.get(taskId);
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+
+      const reservedFor = changes.status && RESERVED_STATUSES[changes.status];
+      if (checks.reserved && reservedFor && changes.status !== task.status) {
+        throw new ReservedStatusError(taskId, changes.status!, reservedFor);
+      }
+
+      const holder = task.status === 'in_progress' ? task.lease?.holder ?? task.assignedTo : undefined;
+      if (checks.holder && holder && holder !== updatedBy && changes.status && changes.status !== task.status) {
+        throw new ClaimNotHeldError(taskId, holder, updatedBy);
+      }
+      // The lease and the assignee move together, through release and claim
+      if (checks.holder && task.lease && changes.assignedTo !== undefined && changes.assignedTo !== task.assignedTo) {
+        throw new ClaimedTaskReassignError(taskId, task.lease.holder);
+      }
+
+      if (changes.dependencies) {
+        this.validateDependencies(taskId, changes.dependencies);
+      }
+      this.validateEstimate(changes.estimate);
+
+      const statusChanged = !!changes.status && changes.status !== task.status;
+      if (statusChanged) {
+        if (task.status === 'awaiting_approval' && !this.decidingApprovals.has(taskId)) {
+          throw new ApprovalRequiredError(taskId, task.approvalId);
+        }
+        assertTransition(task, changes.status!);
+
+        const unmet = this.unmetAcceptanceCriteria(task);
+        if (changes.status === 'completed' && unmet.length > 0) {
+          throw new UnmetAcceptanceCriteriaError(taskId, unmet);
+        }
+      }
+
+      // Apply updates
+      const updatedTask: Task = {
+        ...task,
+        ...changes,
+        updatedAt: new Date().toISOString()
+      };
+
+      if (statusChanged) {
+        updatedTask.history = this.appendHistory(task, {
+          event: 'transition',
+          from: task.status,
+          to: changes.status,
+          actor: updatedBy,
+          timestamp: updatedTask.updatedAt,
+          reason: reason || (changes.status === 'blocked' ? changes.blockedBy : undefined)
+        });
+      }
+
+      // Handle status-specific updates
+      if (changes.status === 'completed' && !task.completedAt) {
+        updatedTask.completedAt = new Date().toISOString();
+      }
+
+      // Tasks going back to the queue start over
+      if (statusChanged && changes.status === 'pending') {
+        delete updatedTask.completedAt;
+        if (!changes.assignedTo) {
+          delete updatedTask.assignedTo;
+        }
+      }
+
+      if (changes.status && changes.status !== 'blocked') {
+        delete updatedTask.blockedBy;
+      }
+
+      // Cascade causes only matter while the task is held up by them
+      if (changes.status && changes.status !== 'blocked' && changes.status !== 'cancelled' && !changes.cascadedFrom) {
+        delete updatedTask.cascadedFrom;
+      }
+
+      // A claim only lives as long as the task is being worked on
+      if (changes.status && changes.status !== 'in_progress') {
+        delete updatedTask.lease;
+      }
+
+      // Retry backoff only holds back tasks waiting in the queue
+      if (changes.status && changes.status !== 'pending') {
+        delete updatedTask.nextRetryAt;
+      }
+
+      await this.saveTask(updatedTask, updatedBy);
+
+      if (statusChanged) {
+        await this.rollUpParent(updatedTask, updatedBy);
+        await this.cascadeToDependents(task, updatedTask, cascade);
+      }
+
+      return { task, updatedTask, statusChanged };
     });
 
     // Store significant updates in RAG
-    if (updates.status && updates.status !== task.status) {
+    if (statusChanged) {
       await this.ragSystem.store(
-        `Task ${taskId} status changed from ${task.status} to ${updates.status}\nTitle: ${task.title}`,
+        `Task ${taskId} status changed from ${task.status} to ${changes.status}\nTitle: ${task.title}${reason ? `\nReason: ${reason}` : ''}`,
         {
           type: 'task_update',
           taskId,
           updatedBy,
           previousStatus: task.status,
-          newStatus: updates.status
+          newStatus: changes.status
         }
       );
     }
 
-    logger.info('TaskManager', `Updated task ${taskId}`, updates);
+    logger.info('TaskManager', `Updated task ${taskId}`, changes);
     return updatedTask;
   }
 
   async getTasks(filter: TaskFilter = {}): Promise<Task[]> {
+    const scheduled = await this.getScheduledTasks(filter);
+    return scheduled.map(({ effectiveScore, ...task }) => task);
+  }
+
+  // Filtered tasks in scheduling order, with the score the policy gave them
+  async getScheduledTasks(filter: TaskFilter = {}): Promise<ScheduledTask[]> {
     let tasks = Array.from(this.taskCache.values());
 
     // Apply filters
@@ -161,75 +587,473 @@ export class TaskManager {
       tasks = tasks.filter(task => task.status !== 'completed');
     }
 
-    // Sort by priority (descending) and creation time (ascending)
-    tasks.sort((a, b) => {
-      if (a.priority !== b.priority) {
-        return b.priority - a.priority;
-      }
-      return a.createdAt.localeCompare(b.createdAt);
-    });
-
-    return tasks;
+    return this.schedulingPolicy.schedule(tasks);
   }
 
   async getTask(taskId: string): Promise<Task | null> {
     return this.taskCache.get(taskId) || null;
   }
 
-  async claimTask(taskId: string, claimedBy: string): Promise<Task> {
-    const task = await this.getTask(taskId);
+  async claimTask(taskId: string, claimedBy: string, roleName?: RoleName): Promise<Task> {
+    return this.atomically(() => this.claimLoadedTask(taskId, claimedBy, roleName));
+  }
+
+  // Select and claim the best eligible task for a role in one step, so two
+  // instances of the same role never end up with the same task
+  async claimNextTask(
+    claimedBy: string,
+    roleName: RoleName,
+    roleConfig = getRoleConfig(roleName)
+  ): Promise<ScheduledTask | null> {
+    return this.atomically(async () => {
+      const candidates = (await this.getTasksForRole(roleName, roleConfig))
+        .filter(task => task.status === 'pending' && !isBackingOff(task))
+        .filter(task => !task.assignedTo || task.assignedTo === claimedBy);
+
+      const next = candidates[0];
+      if (!next) {
+        return null;
+      }
+
+      const claimed = await this.claimLoadedTask(next.id, claimedBy, roleName);
+      return { ...claimed, effectiveScore: next.effectiveScore };
+    });
+  }
+
+  private async claimLoadedTask(taskId: string, claimedBy: string, roleName?: RoleName): Promise<Task> {
+    let task = await this.getTask(taskId);
     if (!task) {
       throw new Error(`Task ${taskId} not found`);
     }
 
+    // A stale claim must not keep other instances away from the task
+    if (task.assignedTo && task.assignedTo !== claimedBy && this.isLeaseExpired(task)) {
+      task = await this.releaseExpiredLease(task);
+    }
+
     if (task.assignedTo && task.assignedTo !== claimedBy) {
       throw new Error(`Task ${taskId} already assigned to ${task.assignedTo}`);
     }
 
-    return this.updateTask(taskId, {
+    if (task.status !== 'in_progress') {
+      assertTransition(task, 'in_progress');
+    }
+
+    if (isBackingOff(task)) {
+      throw new RetryBackoffError(taskId, task.nextRetryAt!, task.attempts || 0);
+    }
+
+    const now = new Date();
+    const claimedTask: Task = {
+      ...task,
       assignedTo: claimedBy,
-      status: 'in_progress'
-    }, claimedBy);
+      status: 'in_progress',
+      lease: {
+        holder: claimedBy,
+        acquiredAt: now.toISOString(),
+        renewedAt: now.toISOString(),
+        expiresAt: this.leaseExpiry(now, roleName || task.assignedRole)
+      },
+      history: this.appendHistory(task, {
+        event: 'claimed',
+        from: task.status,
+        to: 'in_progress',
+        actor: claimedBy,
+        timestamp: now.toISOString()
+      }),
+      updatedAt: now.toISOString()
+    };
+    delete claimedTask.blockedBy;
+    delete claimedTask.nextRetryAt;
+    delete claimedTask.cascadedFrom;
+
+    await this.saveTask(claimedTask, claimedBy);
+    await this.rollUpParent(claimedTask, claimedBy);
+    await this.cascadeToDependents(task, claimedTask);
+
+    logger.info('TaskManager', `Task ${taskId} claimed by ${claimedBy} until ${claimedTask.lease!.expiresAt}`);
+    return claimedTask;
+  }
+
+  async renewClaim(taskId: string, renewedBy: string, roleName?: RoleName): Promise<Task> {
+    const { task, renewedTask } = await this.atomically(async () => {
+      const task = await this.getTask(taskId);
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+
+      if (task.status !== 'in_progress' || !task.lease || task.lease.holder !== renewedBy) {
+        throw new Error(`Task ${taskId} is not claimed by ${renewedBy}`);
+      }
+
+      if (this.isLeaseExpired(task)) {
+        await this.releaseExpiredLease(task);
+        return { task, renewedTask: undefined };
+      }
+
+      const now = new Date();
+      const renewedTask: Task = {
+        ...task,
+        lease: {
+          ...task.lease,
+          renewedAt: now.toISOString(),
+          expiresAt: this.leaseExpiry(now, roleName || task.assignedRole)
+        },
+        history: this.appendHistory(task, { event: 'renewed', actor: renewedBy, timestamp: now.toISOString() }),
+        updatedAt: now.toISOString()
+      };
+
+      await this.saveTask(renewedTask, renewedBy);
+      return { task, renewedTask };
+    });
+
+    if (!renewedTask) {
+      await this.recordAbandoned(task);
+      throw new Error(`Claim on task ${taskId} has already expired`);
+    }
+
+    logger.debug('TaskManager', `Renewed claim on ${taskId} until ${renewedTask.lease!.expiresAt}`);
+    return renewedTask;
+  }
+
+  // Return every in-progress task whose lease ran out to the pending queue
+  async expireLeases(): Promise<Task[]> {
+    // Only take the lock when the cache has something to look at again
+    if (!Array.from(this.taskCache.values()).some(task => this.isLeaseExpired(task))) {
+      return [];
+    }
+
+    const { expired, released } = await this.atomically(async () => {
+      const expired = Array.from(this.taskCache.values()).filter(task => this.isLeaseExpired(task));
+
+      const released: Task[] = [];
+      for (const task of expired) {
+        released.push(await this.releaseExpiredLease(task));
+      }
+
+      return { expired, released };
+    });
+
+    for (const task of expired) {
+      await this.recordAbandoned(task);
+    }
+
+    return released;
   }
 
   async completeTask(
     taskId: string, 
     completedBy: string,
-    results?: Task['results']
+    results?: Task['results'],
+    reason?: string
   ): Promise<Task> {
-    const task = await this.getTask(taskId);
-    if (!task) {
-      throw new Error(`Task ${taskId} not found`);
-    }
+    return this.atomically(async () => {
+      const task = await this.getTask(taskId);
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`);
+      }
 
-    if (task.assignedTo && task.assignedTo !== completedBy) {
-      throw new Error(`Task ${taskId} not assigned to ${completedBy}`);
-    }
+      if (task.assignedTo && task.assignedTo !== completedBy) {
+        throw new Error(`Task ${taskId} not assigned to ${completedBy}`);
+      }
 
-    return this.updateTask(taskId, {
-      status: 'completed',
-      results
-    }, completedBy);
+      return this.updateTask(taskId, {
+        status: 'completed',
+        results,
+        reason
+      }, completedBy);
+    });
   }
 
   async blockTask(taskId: string, blockedBy: string, reason: string): Promise<Task> {
-    return this.updateTask(taskId, {
+    return this.applyUpdate(taskId, {
       status: 'blocked',
       blockedBy: reason
-    }, blockedBy);
+    }, blockedBy, { reserved: true });
+  }
+
+  // Records a failed attempt. The task goes back to the queue after a backoff
+  // delay until its retry policy runs out, then it stays failed (dead-lettered).
+  async failTask(
+    taskId: string,
+    failedBy: string,
+    error: string,
+    options: { retryable?: boolean } = {}
+  ): Promise<Task> {
+    return this.atomically(async () => {
+      const task = await this.getTask(taskId);
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+
+      if (task.assignedTo && task.assignedTo !== failedBy) {
+        throw new Error(`Task ${taskId} not assigned to ${failedBy}`);
+      }
+
+      const policy = resolveRetryPolicy(task);
+      const attempts = (task.attempts || 0) + 1;
+      const now = new Date();
+      const failures = [...(task.failures || []), {
+        attempt: attempts,
+        error,
+        failedBy,
+        failedAt: now.toISOString()
+      }];
+
+      if (options.retryable !== false && attempts < policy.maxAttempts) {
+        const nextRetryAt = new Date(now.getTime() + retryDelay(policy, attempts) * 1000).toISOString();
+        logger.warn('TaskManager', `Task ${taskId} attempt ${attempts}/${policy.maxAttempts} failed, retrying after ${nextRetryAt}`);
+
+        return this.updateTask(taskId, {
+          status: 'pending',
+          attempts,
+          failures,
+          nextRetryAt,
+          reason: `Attempt ${attempts}/${policy.maxAttempts} failed: ${error}`
+        }, failedBy);
+      }
+
+      logger.error('TaskManager', `Task ${taskId} dead-lettered after ${attempts} attempt(s): ${error}`);
+      return this.applyUpdate(taskId, {
+        status: 'failed',
+        attempts,
+        failures,
+        reason: options.retryable === false
+          ? `Failed without retry: ${error}`
+          : `Gave up after ${attempts} attempt(s): ${error}`
+      }, failedBy);
+    });
+  }
+
+  async getDeadLetterTasks(): Promise<DeadLetterTask[]> {
+    return Array.from(this.taskCache.values())
+      .filter(task => task.status === 'failed')
+      .map(task => {
+        const lastFailure = task.failures?.[task.failures.length - 1];
+        return {
+          taskId: task.id,
+          title: task.title,
+          tags: task.tags,
+          attempts: task.attempts || 0,
+          maxAttempts: resolveRetryPolicy(task).maxAttempts,
+          lastError: lastFailure?.error,
+          failedAt: lastFailure?.failedAt,
+          failures: task.failures || []
+        };
+      })
+      .sort((a, b) => (b.failedAt || '').localeCompare(a.failedAt || ''));
+  }
+
+  // Gives a dead-lettered task a fresh set of attempts
+  async requeueTask(
+    taskId: string,
+    requeuedBy: string,
+    options: { reason?: string; resetAttempts?: boolean } = {}
+  ): Promise<Task> {
+    return this.atomically(async () => {
+      const task = await this.getTask(taskId);
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+
+      if (task.status !== 'failed') {
+        throw new Error(`Task ${taskId} is ${task.status}, only failed tasks can be requeued`);
+      }
+
+      return this.updateTask(taskId, {
+        status: 'pending',
+        attempts: options.resetAttempts === false ? task.attempts : 0,
+        nextRetryAt: undefined,
+        reason: options.reason || `Requeued by ${requeuedBy}`
+      }, requeuedBy);
+    });
   }
 
-  async getTasksForRole(roleName: string, roleConfig: any): Promise<Task[]> {
+  async releaseTask(taskId: string, releasedBy: string, reason?: string): Promise<Task> {
+    return this.atomically(async () => {
+      const task = await this.getTask(taskId);
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+
+      if (task.status !== 'in_progress') {
+        throw new Error(`Task ${taskId} is ${task.status}, only in_progress tasks can be released`);
+      }
+
+      return this.applyUpdate(taskId, {
+        status: 'pending',
+        reason: reason || `Released by ${releasedBy}`
+      }, releasedBy, { reserved: true });
+    });
+  }
+
+  async cancelTask(taskId: string, cancelledBy: string, reason?: string, cascade?: CancelCascade): Promise<Task> {
+    return this.applyUpdate(taskId, {
+      status: 'cancelled',
+      reason,
+      cascade
+    }, cancelledBy, { reserved: true });
+  }
+
+  async reopenTask(taskId: string, reopenedBy: string, reason?: string): Promise<Task> {
+    return this.applyUpdate(taskId, {
+      status: 'pending',
+      reason
+    }, reopenedBy, { reserved: true });
+  }
+
+  async createSchedule(
+    name: string,
+    cron: string,
+    task: TaskSchedule['task'],
+    createdBy: string,
+    options: { enabled?: boolean } = {}
+  ): Promise<TaskSchedule> {
+    this.validateEstimate(task.estimate);
+
+    const now = new Date().toISOString();
+    const schedule: TaskSchedule = {
+      id: `schedule-${uuidv4()}`,
+      name,
+      cron,
+      task,
+      enabled: options.enabled ?? true,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+      nextRunAt: this.nextScheduledRun(cron, new Date()).toISOString()
+    };
+
+    await this.contextManager.updateContext({
+      [scheduleKey(schedule.id)]: schedule
+    }, createdBy);
+    await this.contextManager.flush();
+
+    logger.info('TaskManager', `Created schedule ${schedule.id}: ${name} (${cron})`);
+    return schedule;
+  }
+
+  async getSchedules(): Promise<TaskSchedule[]> {
+    const context = await this.contextManager.getContext();
+    return readContextSchedules(context.globalState)
+      .sort((a, b) => a.nextRunAt.localeCompare(b.nextRunAt));
+  }
+
+  // Creates a task for every enabled schedule that has come due. While the
+  // task from an earlier run is still open no second one is created; the
+  // schedule just moves on to its next run. Missed runs are not backfilled.
+  async runDueSchedules(now: Date = new Date()): Promise<ScheduleRun[]> {
+    const { runs, created } = await this.atomically(async () => {
+      const runs: ScheduleRun[] = [];
+      const created: Task[] = [];
+
+      for (const schedule of await this.getSchedules()) {
+        if (!schedule.enabled || new Date(schedule.nextRunAt) > now) {
+          continue;
+        }
+
+        const open = Array.from(this.taskCache.values()).find(task =>
+          task.scheduleId === schedule.id && ['awaiting_approval', 'pending', 'in_progress', 'blocked'].includes(task.status)
+        );
+
+        let taskId: string | undefined;
+        let skipped: string | undefined;
+        if (open) {
+          skipped = `Task ${open.id} from an earlier run is still ${open.status}`;
+        } else {
+          const task = await this.insertTask(schedule.task.title, schedule.task.description, schedule.task.tags, SCHEDULER_ACTOR, {
+            type: schedule.task.type,
+            priority: schedule.task.priority,
+            assignedRole: schedule.task.assignedRole,
+            estimate: schedule.task.estimate,
+            scheduleId: schedule.id
+          });
+          created.push(task);
+          taskId = task.id;
+        }
+
+        const nextRunAt = this.nextScheduledRun(schedule.cron, now).toISOString();
+        await this.contextManager.updateContext({
+          [scheduleKey(schedule.id)]: {
+            ...schedule,
+            lastRunAt: now.toISOString(),
+            lastTaskId: taskId || schedule.lastTaskId,
+            nextRunAt,
+            updatedAt: now.toISOString()
+          }
+        }, SCHEDULER_ACTOR);
+
+        logger.info('TaskManager', `Schedule ${schedule.name}: ${taskId ? `created task ${taskId}` : skipped}`);
+        runs.push({ scheduleId: schedule.id, taskId, skipped, nextRunAt });
+      }
+
+      return { runs, created };
+    });
+
+    for (const task of created) {
+      await this.recordCreated(task);
+    }
+
+    return runs;
+  }
+
+  // Run by the MCP server, so schedules fire while at least one server is up
+  startScheduler(): void {
+    if (this.scheduleInterval) return;
+
+    const run = () => this.runDueSchedules().catch(error => {
+      logger.error('TaskManager', 'Schedule run failed', error);
+    });
+    run();
+    this.scheduleInterval = setInterval(run, config.tasks.scheduleInterval);
+  }
+
+  // Asks the approval policy whether an action may go ahead. Requests the
+  // policy lets through are recorded as approved so the trail is complete.
+  async requestApproval(
+    action: Exclude<ApprovalAction, 'task'>,
+    summary: string,
+    requestedBy: string,
+    options: { taskId?: string; files?: string[] } = {}
+  ): Promise<ApprovalRequest> {
+    if (options.taskId && !this.taskCache.has(options.taskId)) {
+      throw new Error(`Task ${options.taskId} not found`);
+    }
+
+    const policyReason = this.approvalPolicy?.reviewAction(action, options.files);
+    const approval = await this.saveApproval(action, summary, requestedBy, { ...options, policyReason });
+
+    logger.info('TaskManager', `Approval ${approval.id} for ${action}: ${approval.status}`);
+    return approval;
+  }
+
+  async getApprovals(status?: ApprovalStatus): Promise<ApprovalRequest[]> {
+    const context = await this.contextManager.getContext();
+    return readContextApprovals(context.globalState)
+      .filter(approval => !status || approval.status === status)
+      .sort((a, b) => a.requestedAt.localeCompare(b.requestedAt));
+  }
+
+  // Both take an approval ID, or the ID of a task awaiting approval
+  async approve(id: string, decidedBy: string, reason?: string): Promise<ApprovalRequest> {
+    return this.decideApproval(id, 'approved', decidedBy, reason);
+  }
+
+  async reject(id: string, decidedBy: string, reason: string): Promise<ApprovalRequest> {
+    return this.decideApproval(id, 'rejected', decidedBy, reason);
+  }
+
+  async getTasksForRole(roleName: string, roleConfig: any): Promise<ScheduledTask[]> {
     const filter: TaskFilter = {
       tags: roleConfig.watchTags,
       excludeTags: roleConfig.ignoreTags,
       status: ['pending', 'blocked'], // Don't include in_progress by default
       priority: roleConfig.priorityThreshold 
-        ? [roleConfig.priorityThreshold, 4, 5].filter(p => p >= roleConfig.priorityThreshold) as TaskPriority[]
+        ? ([1, 2, 3, 4, 5] as TaskPriority[]).filter(p => p >= roleConfig.priorityThreshold)
         : undefined
     };
 
-    const tasks = await this.getTasks(filter);
+    const tasks = await this.getScheduledTasks(filter);
 
     // Filter out tasks with unmet dependencies
     return tasks.filter(task => {
@@ -238,11 +1062,124 @@ export class TaskManager {
       }
 
       // Check if all dependencies are completed
-      return task.dependencies.every(depId => {
-        const depTask = this.taskCache.get(depId);
-        return depTask && depTask.status === 'completed';
-      });
+      return task.dependencies.every(depId => this.taskCache.get(depId)?.status === 'completed');
+    });
+  }
+
+  private missingDependencies(task: Task): string[] {
+    return (task.dependencies || []).filter(depId => !this.taskCache.has(depId));
+  }
+
+  /**
+   * Block pending tasks whose dependencies have been removed from the store.
+   * They can never start, so they are blocked where people will see them
+   * rather than skipped by every scan. Runs with the lease sweep.
+   */
+  async blockOrphanedTasks(): Promise<Task[]> {
+    const isOrphaned = (task: Task) => task.status === 'pending' && this.missingDependencies(task).length > 0;
+
+    // Only take the lock when the cache has something to look at again
+    if (!Array.from(this.taskCache.values()).some(isOrphaned)) {
+      return [];
+    }
+
+    return this.atomically(async () => {
+      const blocked: Task[] = [];
+      for (const task of Array.from(this.taskCache.values()).filter(isOrphaned)) {
+        const missing = this.missingDependencies(task);
+        const reason = `Missing ${missing.length === 1 ? 'dependency' : 'dependencies'} ${missing.join(', ')}`;
+        logger.warn('TaskManager', `Blocking task ${task.id}: ${reason}`);
+        blocked.push(await this.applyUpdate(task.id, { status: 'blocked', blockedBy: reason, reason }, 'system'));
+      }
+
+      return blocked;
+    });
+  }
+
+  async addComment(
+    taskId: string,
+    author: string,
+    body: string,
+    options: {
+      role?: RoleName;
+      references?: TaskFileReference[];
+      replyTo?: string;
+    } = {}
+  ): Promise<TaskComment> {
+    const task = await this.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+
+    if (options.replyTo && !task.comments?.some(comment => comment.id === options.replyTo)) {
+      throw new Error(`Comment ${options.replyTo} not found on task ${taskId}`);
+    }
+
+    const comment: TaskComment = {
+      id: `comment-${uuidv4()}`,
+      author,
+      role: options.role,
+      body,
+      references: options.references,
+      replyTo: options.replyTo,
+      createdAt: new Date().toISOString()
+    };
+
+    // Index the discussion so later tasks can find it
+    const references = (options.references || [])
+      .map(ref => ref.line ? `${ref.file}:${ref.line}${ref.endLine ? `-${ref.endLine}` : ''}` : ref.file);
+    comment.ragDocumentId = await this.ragSystem.store(
+      `Comment on task ${taskId} (${task.title}) by ${options.role || author}:\n${body}` +
+        (references.length > 0 ? `\nReferences: ${references.join(', ')}` : ''),
+      {
+        type: 'task_comment',
+        taskId,
+        commentId: comment.id,
+        author,
+        role: options.role,
+        tags: task.tags
+      }
+    );
+
+    // Appended to the latest copy, other writers may have moved the task on
+    await this.atomically(async () => {
+      const current = this.taskCache.get(taskId);
+      if (!current) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+      await this.saveTask({
+        ...current,
+        comments: [...(current.comments || []), comment],
+        updatedAt: comment.createdAt
+      }, author);
     });
+
+    logger.info('TaskManager', `Comment ${comment.id} added to task ${taskId} by ${author}`);
+    return comment;
+  }
+
+  async getComments(taskId: string): Promise<TaskCommentThread[]> {
+    const task = await this.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+
+    const threads = new Map<string, TaskCommentThread>();
+    for (const comment of task.comments || []) {
+      threads.set(comment.id, { ...comment, replies: [] });
+    }
+
+    const roots: TaskCommentThread[] = [];
+    for (const thread of threads.values()) {
+      const parent = thread.replyTo ? threads.get(thread.replyTo) : undefined;
+      if (parent) {
+        parent.replies.push(thread);
+      } else {
+        roots.push(thread);
+      }
+    }
+
+    return roots;
   }
 
   async getRelatedTasks(taskId: string): Promise<Task[]> {
@@ -258,6 +1195,552 @@ export class TaskManager {
     });
   }
 
+  async getTaskGraph(taskId?: string): Promise<TaskGraph> {
+    if (taskId && !this.taskCache.has(taskId)) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+
+    return buildTaskGraph(
+      this.taskCache,
+      taskId ? connectedTaskIds(this.taskCache, taskId) : undefined
+    );
+  }
+
+  async getDwellTimes(taskId: string): Promise<TaskDwellTimes> {
+    const task = this.taskCache.get(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    return computeDwellTimes(task);
+  }
+
+  async getTaskAnalytics(range: AnalyticsRange = {}): Promise<TaskAnalytics> {
+    return buildTaskAnalytics(this.taskCache.values(), range);
+  }
+
+  // Ranks tasks by keyword matches in title, tags, description and comments,
+  // blended with RAG similarity of their creation, update and comment documents
+  async searchTasks(query: string, options: TaskSearchOptions = {}): Promise<TaskSearchResult> {
+    const limit = Math.min(Math.max(options.limit || 10, 1), 50);
+    const offset = Math.max(options.offset || 0, 0);
+    const dateField = options.dateField || 'createdAt';
+    const from = options.from ? new Date(options.from).getTime() : -Infinity;
+    const to = options.to ? new Date(options.to).getTime() : Infinity;
+
+    const candidates = (await this.getTasks({ includeCompleted: true, ...options.filter }))
+      .filter(task => {
+        const value = task[dateField];
+        if (!value) return !options.from && !options.to;
+        const time = new Date(value).getTime();
+        return time >= from && time <= to;
+      });
+
+    const semantic = new Map<string, { score: number; content: string }>();
+    if (options.semantic !== false && query.trim()) {
+      try {
+        const result = await this.ragSystem.query(query, 50, config.rag.similarityThreshold);
+        result.documents.forEach((doc, index) => {
+          const taskId = doc.metadata?.taskId;
+          const score = result.scores[index];
+          if (taskId && (!semantic.has(taskId) || semantic.get(taskId)!.score < score)) {
+            semantic.set(taskId, { score, content: doc.content });
+          }
+        });
+      } catch (error) {
+        logger.warn('TaskManager', 'Semantic task search failed, using keywords only', error);
+      }
+    }
+
+    const terms = tokenizeQuery(query);
+    const hits: TaskSearchHit[] = [];
+    for (const task of candidates) {
+      const keywords = scoreTaskKeywords(task, terms);
+      const match = semantic.get(task.id);
+      const semanticScore = match ? Math.min(Math.max(match.score, 0), 1) : 0;
+      if (keywords.score === 0 && semanticScore === 0) continue;
+
+      const highlights = keywords.highlights;
+      if (highlights.length === 0 && match) {
+        highlights.push({ field: 'rag', snippet: highlight(match.content, terms) || match.content.replace(/\s+/g, ' ').slice(0, 160) });
+      }
+
+      hits.push({
+        task,
+        score: Math.round((keywords.score * 0.6 + semanticScore * 0.4) * 1000) / 1000,
+        keywordScore: Math.round(keywords.score * 1000) / 1000,
+        semanticScore: Math.round(semanticScore * 1000) / 1000,
+        highlights
+      });
+    }
+
+    hits.sort((a, b) => b.score - a.score || b.task.updatedAt.localeCompare(a.task.updatedAt));
+
+    return {
+      query,
+      total: hits.length,
+      offset,
+      limit,
+      hits: hits.slice(offset, offset + limit)
+    };
+  }
+
+  async exportTasks(format: TaskExportFormat, filter: TaskFilter = { includeCompleted: true }): Promise<string> {
+    // getTasks leaves out the scheduling metadata, so exports round-trip as plain tasks
+    const tasks = (await this.getTasks(filter))
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    return serializeTasks(tasks, format);
+  }
+
+  // Imported tasks get fresh IDs; dependencies and parents are remapped onto
+  // them, or kept when they point at tasks already in this store
+  async importTasks(
+    content: string,
+    format: TaskExportFormat,
+    importedBy: string,
+    options: { dryRun?: boolean } = {}
+  ): Promise<TaskImportResult> {
+    const records = parseTasks(content, format);
+    const dryRun = options.dryRun ?? false;
+
+    return this.atomically(async () => {
+      const result: TaskImportResult = { dryRun, created: [], skipped: [], idMap: {}, warnings: [], diff: [] };
+      const sourceIds = new Set<string>();
+
+      for (const record of records) {
+        if (sourceIds.has(record.sourceId)) {
+          throw new Error(`Duplicate task ID ${record.sourceId} in import`);
+        }
+        sourceIds.add(record.sourceId);
+
+        const existing = this.taskCache.get(record.sourceId);
+        if (existing && existing.title === record.title) {
+          result.idMap[record.sourceId] = existing.id;
+          result.skipped.push({ sourceId: record.sourceId, taskId: existing.id, title: existing.title, status: existing.status });
+          result.diff.push(`= ${existing.id} ${existing.title} (already present)`);
+        } else {
+          result.idMap[record.sourceId] = `task-${uuidv4()}`;
+        }
+      }
+
+      const resolve = (sourceId: string, kind: string, owner: string): string | undefined => {
+        if (result.idMap[sourceId]) return result.idMap[sourceId];
+        if (this.taskCache.has(sourceId)) return sourceId;
+        result.warnings.push(`${owner}: ${kind} ${sourceId} not found, dropped`);
+        return undefined;
+      };
+
+      const now = new Date().toISOString();
+      const skippedIds = new Set(result.skipped.map(entry => entry.sourceId));
+      const imported: Task[] = [];
+
+      for (const record of records.filter(record => !skippedIds.has(record.sourceId))) {
+        const taskId = result.idMap[record.sourceId];
+        const dependencies = record.dependencies
+          .map(depId => resolve(depId, 'dependency', record.sourceId))
+          .filter((depId): depId is string => !!depId);
+        const parentId = record.parentId ? resolve(record.parentId, 'parent', record.sourceId) : undefined;
+
+        // Claims, leases and approval requests belong to the source system
+        const { lease, assignedTo, children, possibleDuplicates, approvalId, ...original } = record.task || {} as Partial<Task>;
+        const cascadedFrom = (original.cascadedFrom || [])
+          .map(causeId => resolve(causeId, 'cascade cause', record.sourceId))
+          .filter((causeId): causeId is string => !!causeId);
+        const task: Task = {
+          ...original,
+          id: taskId,
+          title: record.title,
+          description: record.description,
+          tags: record.tags,
+          status: record.status === 'in_progress' ? 'pending' : record.status,
+          priority: record.priority,
+          assignedRole: record.assignedRole,
+          dependencies: dependencies.length > 0 ? dependencies : undefined,
+          parentId,
+          cascadedFrom: cascadedFrom.length > 0 ? cascadedFrom : undefined,
+          createdBy: original.createdBy || importedBy,
+          createdAt: original.createdAt || now,
+          updatedAt: now,
+          completedAt: record.status === 'completed' ? original.completedAt || now : undefined
+        };
+        task.history = this.appendHistory(task, {
+          event: 'imported',
+          to: task.status,
+          actor: importedBy,
+          timestamp: now,
+          reason: `Imported from ${format} as ${record.sourceId}`
+        });
+
+        imported.push(task);
+        result.created.push({ sourceId: record.sourceId, taskId, title: task.title, status: task.status });
+        result.diff.push(`+ ${taskId} ${task.title} [${task.status}]`
+          + (record.sourceId !== taskId ? ` (was ${record.sourceId})` : '')
+          + (dependencies.length > 0 ? ` depends on ${dependencies.join(', ')}` : '')
+          + (parentId ? ` under ${parentId}` : ''));
+      }
+
+      // Wire up children, including imports under parents already in the store
+      const pending = new Map<string, Task>([...this.taskCache, ...imported.map(task => [task.id, task] as [string, Task])]);
+      for (const task of imported) {
+        if (!task.parentId) continue;
+        const parent = pending.get(task.parentId)!;
+        if (!parent.children?.includes(task.id)) {
+          if (this.taskCache.has(parent.id)) {
+            result.diff.push(`~ ${parent.id} ${parent.title}: add subtask ${task.id}`);
+          }
+          pending.set(parent.id, { ...parent, children: [...(parent.children || []), task.id], updatedAt: now });
+        }
+      }
+
+      for (const task of imported) {
+        const cycle = findDependencyCycle(pending, task.id, task.dependencies || []);
+        if (cycle) {
+          throw new DependencyCycleError(task.id, cycle);
+        }
+      }
+
+      result.warnings.forEach(warning => result.diff.push(`! ${warning}`));
+      if (dryRun) {
+        return result;
+      }
+
+      // Tasks imported awaiting approval wait on a request of our own
+      for (const task of imported.filter(task => task.status === 'awaiting_approval')) {
+        const approval = await this.saveApproval('task', `Import task: ${task.title}`, importedBy, {
+          taskId: task.id,
+          policyReason: 'Imported awaiting approval'
+        });
+        pending.set(task.id, { ...pending.get(task.id)!, approvalId: approval.id });
+      }
+
+      const underExistingParents = imported.filter(task => task.parentId && this.taskCache.has(task.parentId));
+      for (const [taskId, task] of pending) {
+        if (this.taskCache.get(taskId) !== task) {
+          await this.saveTask(task, importedBy);
+        }
+      }
+
+      for (const task of underExistingParents) {
+        await this.rollUpParent(task, importedBy);
+      }
+
+      logger.info('TaskManager', `Imported ${result.created.length} tasks from ${format} (${result.skipped.length} skipped)`);
+      return result;
+    });
+  }
+
+  // Derive an epic's progress and status from its subtasks
+  private async rollUpParent(child: Task, actor: string): Promise<void> {
+    const parent = child.parentId ? this.taskCache.get(child.parentId) : undefined;
+    if (!parent) return;
+
+    const children = (parent.children || [])
+      .map(id => this.taskCache.get(id))
+      .filter((task): task is Task => !!task && task.status !== 'cancelled');
+    if (children.length === 0) return;
+
+    const completed = children.filter(task => task.status === 'completed').length;
+    const progress = Math.round((completed / children.length) * 100);
+
+    // An epic's own acceptance criteria still gate its completion
+    let target: TaskStatus = 'pending';
+    if (completed === children.length && this.unmetAcceptanceCriteria(parent).length === 0) {
+      target = 'completed';
+    } else if (children.some(task => task.status === 'in_progress' || task.status === 'completed')) {
+      target = 'in_progress';
+    }
+
+    if (parent.progress !== progress) {
+      await this.saveTask({ ...parent, progress, updatedAt: new Date().toISOString() }, actor);
+    }
+
+    if (target === parent.status || ['blocked', 'cancelled', 'awaiting_approval'].includes(parent.status)) {
+      return;
+    }
+
+    // Some roll-ups need an intermediate step, e.g. pending -> in_progress -> completed
+    const steps: TaskStatus[] = canTransition(parent.status, target)
+      ? [target]
+      : (['in_progress', 'pending'] as TaskStatus[])
+          .filter(step => canTransition(parent.status, step) && canTransition(step, target))
+          .slice(0, 1)
+          .concat(target);
+
+    for (const status of steps) {
+      await this.applyUpdate(parent.id, {
+        status,
+        reason: `Rolled up from subtasks (${completed}/${children.length} completed)`
+      }, 'system');
+    }
+  }
+
+  // A blocked, cancelled or failed task holds up its pending dependents, which
+  // are blocked (or cancelled along with it) and released once it recovers.
+  // Each hop goes through updateTask, so this recurses down the dependency chain.
+  private async cascadeToDependents(previous: Task, task: Task, cascade?: CancelCascade): Promise<void> {
+    const isStalled = (status: TaskStatus) => status === 'blocked' || status === 'cancelled' || status === 'failed';
+    if (isStalled(previous.status) === isStalled(task.status)) return;
+
+    const dependentIds = Array.from(this.taskCache.values())
+      .filter(other => other.dependencies?.includes(task.id))
+      .map(other => other.id);
+
+    for (const dependentId of dependentIds) {
+      const dependent = this.taskCache.get(dependentId)!;
+
+      if (isStalled(task.status)) {
+        if (dependent.status !== 'pending' && dependent.status !== 'blocked') continue;
+
+        const cascadedFrom = Array.from(new Set([...(dependent.cascadedFrom || []), task.id]));
+        const cause = `Dependency ${task.id} is ${task.status}`;
+        const mode = task.status === 'cancelled' ? cascade || config.tasks.cancelCascade : 'block';
+
+        if (mode === 'cancel') {
+          await this.updateTask(dependentId, { status: 'cancelled', cascadedFrom, cascade: mode, reason: cause }, 'system');
+        } else if (dependent.status === 'pending') {
+          await this.updateTask(dependentId, { status: 'blocked', blockedBy: cause, cascadedFrom, reason: cause }, 'system');
+        } else {
+          await this.saveTask({ ...dependent, cascadedFrom, updatedAt: new Date().toISOString() }, 'system');
+        }
+      } else if (dependent.cascadedFrom?.includes(task.id)) {
+        const remaining = dependent.cascadedFrom.filter(id => id !== task.id);
+
+        if (remaining.length === 0 && (dependent.status === 'blocked' || dependent.status === 'cancelled')) {
+          await this.updateTask(dependentId, {
+            status: 'pending',
+            reason: `Dependency ${task.id} is no longer ${previous.status}`
+          }, 'system');
+        } else {
+          const released: Task = { ...dependent, cascadedFrom: remaining, updatedAt: new Date().toISOString() };
+          if (remaining.length === 0) {
+            delete released.cascadedFrom;
+          }
+          await this.saveTask(released, 'system');
+        }
+      }
+    }
+  }
+
+  private unmetAcceptanceCriteria(task: Task): AcceptanceCriterion[] {
+    return (task.acceptanceCriteria || []).filter(criterion => criterion.status === 'open');
+  }
+
+  private validateDependencies(taskId: string, dependencies?: string[]): void {
+    if (!dependencies || dependencies.length === 0) return;
+
+    const missing = dependencies.filter(depId => !this.taskCache.has(depId));
+    if (missing.length > 0) {
+      throw new DependencyNotFoundError(taskId, missing);
+    }
+
+    const cycle = findDependencyCycle(this.taskCache, taskId, dependencies);
+    if (cycle) {
+      throw new DependencyCycleError(taskId, cycle);
+    }
+  }
+
+  private validateEstimate(estimate?: number): void {
+    if (estimate !== undefined && !(estimate > 0)) {
+      throw new Error(`Estimate must be a positive number of hours, got ${estimate}`);
+    }
+  }
+
+  private async saveApproval(
+    action: ApprovalAction,
+    summary: string,
+    requestedBy: string,
+    options: { taskId?: string; files?: string[]; policyReason?: string }
+  ): Promise<ApprovalRequest> {
+    const now = new Date().toISOString();
+    const approval: ApprovalRequest = {
+      id: `approval-${uuidv4()}`,
+      action,
+      taskId: options.taskId,
+      summary,
+      files: options.files,
+      automationLevel: this.approvalPolicy?.level || 'full-auto',
+      policyReason: options.policyReason,
+      status: options.policyReason ? 'awaiting_approval' : 'approved',
+      requestedBy,
+      requestedAt: now,
+      ...(options.policyReason ? {} : { decidedBy: 'policy', decidedAt: now })
+    };
+
+    await this.contextManager.updateContext({ [approvalKey(approval.id)]: approval }, requestedBy);
+    await this.contextManager.flush();
+    return approval;
+  }
+
+  private async decideApproval(
+    id: string,
+    decision: 'approved' | 'rejected',
+    decidedBy: string,
+    reason?: string
+  ): Promise<ApprovalRequest> {
+    return this.atomically(async () => {
+      const approvals = await this.getApprovals();
+      const approval = approvals.find(item => item.id === id)
+        || approvals.find(item => item.taskId === id && item.action === 'task' && item.status === 'awaiting_approval');
+      if (!approval) {
+        throw new Error(`Approval ${id} not found`);
+      }
+
+      if (approval.status !== 'awaiting_approval') {
+        throw new ApprovalDecisionError(approval.id, `already ${approval.status} by ${approval.decidedBy}`);
+      }
+      if (approval.requestedBy === decidedBy) {
+        throw new ApprovalDecisionError(approval.id, `${decidedBy} requested it and cannot decide it`);
+      }
+      // Gates exist to put a person between agents and what they do
+      if ((await this.contextManager.getContext()).agentStates[decidedBy]) {
+        throw new ApprovalDecisionError(approval.id, `${decidedBy} is an agent, approvals are decided by people`);
+      }
+      if (decision === 'rejected' && !reason?.trim()) {
+        throw new ApprovalDecisionError(approval.id, 'a rejection needs a reason');
+      }
+
+      const decided: ApprovalRequest = {
+        ...approval,
+        status: decision,
+        decidedBy,
+        decidedAt: new Date().toISOString(),
+        reason
+      };
+      await this.contextManager.updateContext({ [approvalKey(approval.id)]: decided }, decidedBy);
+      await this.contextManager.flush();
+
+      const task = approval.taskId ? this.taskCache.get(approval.taskId) : undefined;
+      if (approval.action === 'task' && task?.status === 'awaiting_approval') {
+        this.decidingApprovals.add(task.id);
+        try {
+          await this.updateTask(task.id, {
+            status: decision === 'approved' ? 'pending' : 'cancelled',
+            reason: `${decision === 'approved' ? 'Approved' : 'Rejected'} by ${decidedBy}${reason ? `: ${reason}` : ''}`
+          }, decidedBy);
+        } finally {
+          this.decidingApprovals.delete(task.id);
+        }
+      }
+
+      logger.info('TaskManager', `Approval ${approval.id} ${decision} by ${decidedBy}`);
+      return decided;
+    });
+  }
+
+  private nextScheduledRun(cron: string, after: Date): Date {
+    try {
+      return nextCronRun(cron, after);
+    } catch (error) {
+      throw new InvalidScheduleError(cron, (error as Error).message);
+    }
+  }
+
+  private isLeaseExpired(task: Task): boolean {
+    return task.status === 'in_progress'
+      && !!task.lease
+      && new Date(task.lease.expiresAt).getTime() <= Date.now();
+  }
+
+  private leaseExpiry(from: Date, roleName?: RoleName): string {
+    const minutes = (roleName && getRoleConfig(roleName).taskTimeout) || config.tasks.defaultLeaseTimeout;
+    return new Date(from.getTime() + minutes * 60 * 1000).toISOString();
+  }
+
+  private leaseExpiredReason(task: Task): { holder: string; reason: string } {
+    const holder = task.lease?.holder || task.assignedTo || 'unknown';
+    return { holder, reason: `Lease held by ${holder} expired at ${task.lease?.expiresAt}` };
+  }
+
+  // Runs under the lock; the caller stores the abandonment with
+  // `recordAbandoned` once the lock is released
+  private async releaseExpiredLease(task: Task): Promise<Task> {
+    const { reason } = this.leaseExpiredReason(task);
+
+    const releasedTask: Task = {
+      ...task,
+      status: 'pending',
+      history: this.appendHistory(task, {
+        event: 'lease_expired',
+        from: task.status,
+        to: 'pending',
+        actor: 'system',
+        timestamp: new Date().toISOString(),
+        reason
+      }),
+      updatedAt: new Date().toISOString()
+    };
+    delete releasedTask.assignedTo;
+    delete releasedTask.lease;
+
+    await this.saveTask(releasedTask, 'system');
+    await this.rollUpParent(releasedTask, 'system');
+
+    logger.warn('TaskManager', `Task ${task.id} returned to queue: ${reason}`);
+    return releasedTask;
+  }
+
+  // Takes the task as it was before its lease was released
+  private async recordAbandoned(task: Task): Promise<void> {
+    const { holder, reason } = this.leaseExpiredReason(task);
+    await this.ragSystem.store(
+      `Task ${task.id} abandoned: ${reason}\nTitle: ${task.title}`,
+      {
+        type: 'task_abandoned',
+        taskId: task.id,
+        abandonedBy: holder
+      }
+    );
+  }
+
+  private appendHistory(task: Task, entry: TaskHistoryEntry): TaskHistoryEntry[] {
+    return [...(task.history || []), entry];
+  }
+
+  // Tasks are persisted in the shared context in `globalState.tasks`, by ID.
+  // Entries that do not match the task model are left out with a warning.
+  private async refresh(): Promise<void> {
+    const context = await this.contextManager.getContext();
+    const { tasks, invalid } = readContextTasks(context.globalState);
+
+    // Only warn when the set of invalid entries changes, refresh runs a lot
+    if (invalid.length > 0 && invalid.join() !== this.invalidTaskKeys) {
+      logger.warn('TaskManager', 'Skipping context entries that are not valid tasks', { invalid });
+    }
+    this.invalidTaskKeys = invalid.join();
+    this.taskCache = new Map(tasks.map(task => [task.id, task]));
+  }
+
+  // Runs a read-modify-write on tasks under the cross-process context lock,
+  // against the latest tasks written by any MCP server process
+  private async atomically<T>(fn: () => Promise<T>): Promise<T> {
+    this.atomicDepth++;
+    try {
+      return await this.contextManager.withLock(async () => {
+        // Land our own queued writes before reading everyone else's
+        await this.contextManager.flush();
+        await this.refresh();
+
+        const result = await fn();
+
+        await this.contextManager.flush();
+        return result;
+      });
+    } finally {
+      // Pick up anything skipped by onContextUpdated while we held the lock
+      if (--this.atomicDepth === 0) {
+        await this.refresh();
+      }
+    }
+  }
+
+  private async saveTask(task: Task, updatedBy: string): Promise<void> {
+    // Validated against the task model by the context manager
+    await this.contextManager.updateContext({
+      [taskKey(task.id)]: task
+    }, updatedBy);
+
+    this.taskCache.set(task.id, task);
+  }
+
   // Helper method to check if a task can be worked on
   canWorkOnTask(task: Task, workerId: string): boolean {
     // Task must be pending or blocked by this worker
@@ -292,11 +1775,13 @@ export class TaskManager {
     return {
       total: tasks.length,
       byStatus: {
+        awaiting_approval: tasks.filter(t => t.status === 'awaiting_approval').length,
         pending: tasks.filter(t => t.status === 'pending').length,
         in_progress: tasks.filter(t => t.status === 'in_progress').length,
         blocked: tasks.filter(t => t.status === 'blocked').length,
         completed: tasks.filter(t => t.status === 'completed').length,
-        cancelled: tasks.filter(t => t.status === 'cancelled').length
+        cancelled: tasks.filter(t => t.status === 'cancelled').length,
+        failed: tasks.filter(t => t.status === 'failed').length
       },
       byPriority: {
         1: tasks.filter(t => t.priority === 1).length,
@@ -310,7 +1795,23 @@ export class TaskManager {
         implementer: tasks.filter(t => t.assignedRole === 'implementer').length,
         validator: tasks.filter(t => t.assignedRole === 'validator').length,
         unassigned: tasks.filter(t => !t.assignedRole).length
-      }
+      },
+      byEpic: Object.fromEntries(
+        tasks
+          .filter(t => t.children && t.children.length > 0)
+          .map(epic => {
+            const children = epic.children!
+              .map(id => this.taskCache.get(id))
+              .filter((t): t is Task => !!t);
+            return [epic.id, {
+              title: epic.title,
+              status: epic.status,
+              subtasks: children.length,
+              completed: children.filter(t => t.status === 'completed').length,
+              progress: epic.progress || 0
+            }];
+          })
+      )
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { ZodError } from 'zod';
+import { ApprovalRequest, ApprovalRequestSchema, LegacyTask, LegacyTaskSchema, Task, TaskPriority, TaskSchedule, TaskScheduleSchema, TaskSchema } from '../types/tasks.js';
+import { InvalidTaskError } from './errors.js';
+
+const MIGRATION_ACTOR = 'migration';
+
+export interface TaskMigrationResult {
+  migrated: string[]; // IDs of tasks upgraded from the legacy shape
+  invalid: string[]; // Context keys holding tasks that fit neither shape
+}
+
+// Tasks are persisted in the shared context's `globalState.tasks`, keyed by
+// ID, and written through the `tasks.<id>` context path
+export function taskKey(taskId: string): string {
+  return `tasks.${taskId}`;
+}
+
+// Tasks stored in a context's globalState. Entries that do not match the
+// task model are reported by path instead of being returned.
+export function readContextTasks(globalState: Record<string, any> = {}): { tasks: Task[]; invalid: string[] } {
+  const tasks: Task[] = [];
+  const invalid: string[] = [];
+
+  for (const [id, value] of Object.entries(collection(globalState, 'tasks'))) {
+    const key = taskKey(id);
+    try {
+      const task = parseTask(value);
+      if (task.id === id) {
+        tasks.push(task);
+      } else {
+        invalid.push(key);
+      }
+    } catch (error) {
+      if (!(error instanceof InvalidTaskError)) throw error;
+      invalid.push(key);
+    }
+  }
+
+  return { tasks, invalid };
+}
+
+// Task schedules are persisted next to the tasks in `globalState.schedules`
+export function scheduleKey(scheduleId: string): string {
+  return `schedules.${scheduleId}`;
+}
+
+// Schedules stored in a context's globalState, skipping invalid entries
+export function readContextSchedules(globalState: Record<string, any> = {}): TaskSchedule[] {
+  return Object.values(collection(globalState, 'schedules'))
+    .map(value => TaskScheduleSchema.safeParse(value))
+    .flatMap(result => result.success ? [result.data] : []);
+}
+
+// Approval requests, decided or not, are kept in `globalState.approvals`
+export function approvalKey(approvalId: string): string {
+  return `approvals.${approvalId}`;
+}
+
+export function readContextApprovals(globalState: Record<string, any> = {}): ApprovalRequest[] {
+  return Object.values(collection(globalState, 'approvals'))
+    .map(value => ApprovalRequestSchema.safeParse(value))
+    .flatMap(result => result.success ? [result.data] : []);
+}
+
+// Validates a task against the canonical model, upgrading the legacy shape
+export function parseTask(raw: unknown): Task {
+  const result = TaskSchema.safeParse(raw);
+  if (result.success) {
+    return result.data;
+  }
+
+  const legacy = LegacyTaskSchema.safeParse(raw);
+  if (legacy.success) {
+    return upgradeLegacyTask(legacy.data);
+  }
+
+  const id = raw && typeof raw === 'object' ? (raw as any).id : undefined;
+  throw new InvalidTaskError(typeof id === 'string' ? id : undefined, formatIssues(result.error));
+}
+
+export function upgradeLegacyTask(legacy: LegacyTask, now: Date = new Date()): Task {
+  const task: Task = {
+    id: legacy.id,
+    title: legacyTitle(legacy),
+    description: legacy.description,
+    type: legacy.type,
+    tags: [legacy.type.toUpperCase()],
+    status: legacy.status,
+    priority: legacyPriority(legacy.priority),
+    assignedTo: legacy.assignedTo,
+    dependencies: legacy.dependencies,
+    createdBy: MIGRATION_ACTOR,
+    createdAt: legacy.createdAt,
+    updatedAt: legacy.updatedAt,
+    completedAt: legacy.completedAt,
+    history: [{
+      event: 'migrated',
+      actor: MIGRATION_ACTOR,
+      timestamp: now.toISOString(),
+      reason: 'Upgraded from the legacy task format'
+    }]
+  };
+
+  if (legacy.result !== undefined && legacy.result !== null) {
+    const isRecord = typeof legacy.result === 'object' && !Array.isArray(legacy.result);
+    task.results = { metrics: isRecord ? legacy.result : { result: legacy.result } };
+  }
+
+  if (legacy.error) {
+    task.attempts = 1;
+    task.failures = [{
+      attempt: 1,
+      error: legacy.error,
+      failedBy: legacy.assignedTo || MIGRATION_ACTOR,
+      failedAt: legacy.updatedAt
+    }];
+  }
+
+  return task;
+}
+
+// Upgrades a raw shared context in place: legacy tasks from the old
+// `taskQueue` / `currentTask` fields and `globalState.taskQueue` become
+// canonical entries in `globalState.tasks`, merged with the per-field status
+// writes of old agents. Expects flattened `tasks.<id>.status` style keys to
+// have been folded into structure already. Tasks already in the canonical
+// shape are left as they are.
+export function migrateContextTasks(raw: any): TaskMigrationResult {
+  const result: TaskMigrationResult = { migrated: [], invalid: [] };
+  if (!raw || typeof raw !== 'object') {
+    return result;
+  }
+
+  const globalState: Record<string, any> = raw.globalState && typeof raw.globalState === 'object'
+    ? raw.globalState
+    : (raw.globalState = {});
+  const legacy = new Map<string, Record<string, any>>();
+  const collect = (candidate: any): boolean => {
+    if (!candidate || typeof candidate !== 'object' || typeof candidate.id !== 'string') {
+      return false;
+    }
+    legacy.set(candidate.id, { ...legacy.get(candidate.id), ...candidate });
+    return true;
+  };
+
+  if (Array.isArray(raw.taskQueue)) raw.taskQueue.forEach(collect);
+  collect(raw.currentTask);
+  delete raw.taskQueue;
+  delete raw.currentTask;
+
+  // An array, or an object once `taskQueue.<id>` keys have been folded
+  const queue = globalState.taskQueue;
+  if (queue && typeof queue === 'object') {
+    (Array.isArray(queue) ? queue : Object.values(queue)).forEach(collect);
+    delete globalState.taskQueue;
+  }
+
+  const tasks: Record<string, any> = {};
+  const stored = globalState.tasks;
+  if (Array.isArray(stored)) {
+    stored.forEach(collect);
+  } else if (stored && typeof stored === 'object') {
+    // Entries off the model are legacy tasks, or fields written next to one
+    for (const [id, value] of Object.entries(stored)) {
+      const partial = value && typeof value === 'object' ? { id, ...value } : value;
+      if (TaskSchema.safeParse(value).success || !collect(partial)) {
+        tasks[id] = value;
+      }
+    }
+  }
+  globalState.tasks = tasks;
+
+  for (const [id, candidate] of legacy) {
+    const existing = tasks[id];
+    if (existing && TaskSchema.safeParse(existing).success) {
+      continue; // Already migrated, the canonical copy wins
+    }
+
+    try {
+      tasks[id] = parseTask(candidate);
+      if (!TaskSchema.safeParse(candidate).success) {
+        result.migrated.push(id);
+      }
+    } catch (error) {
+      if (!(error instanceof InvalidTaskError)) throw error;
+      // Keep what we could not read so nothing is lost
+      tasks[id] = candidate;
+      result.invalid.push(taskKey(id));
+    }
+  }
+
+  return result;
+}
+
+// A keyed collection such as `globalState.tasks`, empty when missing
+function collection(globalState: Record<string, any>, name: string): Record<string, any> {
+  const value = globalState[name];
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+// Priority 0-10 folds onto 1-5
+function legacyPriority(priority: number): TaskPriority {
+  return Math.min(5, Math.max(1, Math.ceil(priority / 2))) as TaskPriority;
+}
+
+function legacyTitle(legacy: LegacyTask): string {
+  const firstLine = legacy.description.split('\n')[0].trim();
+  if (!firstLine) return legacy.type;
+  return firstLine.length > 80 ? `${firstLine.slice(0, 77)}...` : firstLine;
+}
+
+function formatIssues(error: ZodError): string[] {
+  return error.issues.map(issue => `${issue.path.join('.') || '(task)'}: ${issue.message}`);
+}
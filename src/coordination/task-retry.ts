@@ -0,0 +1,35 @@
+import { Task, RetryPolicy } from '../types/tasks.js';
+import { config } from '../config/index.js';
+
+// The task's own policy wins, then the first of its tags with a policy, then the default
+export function resolveRetryPolicy(task: Task): RetryPolicy {
+  if (task.retryPolicy) {
+    return task.retryPolicy;
+  }
+
+  const defaults = config.tasks.retry;
+  const tag = task.tags.find(tag => config.tasks.tagRetryPolicies[tag]);
+  if (!tag) {
+    return defaults;
+  }
+
+  const tagPolicy = config.tasks.tagRetryPolicies[tag];
+  return {
+    maxAttempts: tagPolicy.maxAttempts,
+    backoff: tagPolicy.backoff || defaults.backoff,
+    baseDelay: tagPolicy.baseDelay ?? defaults.baseDelay,
+    maxDelay: defaults.maxDelay
+  };
+}
+
+// Seconds to wait before retrying after the given (1-based) failed attempt
+export function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = policy.backoff === 'exponential'
+    ? policy.baseDelay * Math.pow(2, attempt - 1)
+    : policy.baseDelay;
+  return Math.min(delay, policy.maxDelay);
+}
+
+export function isBackingOff(task: Task, now: Date = new Date()): boolean {
+  return !!task.nextRetryAt && new Date(task.nextRetryAt).getTime() > now.getTime();
+}
@@ -0,0 +1,148 @@
+// Cron expressions for scheduled tasks: the five standard fields (minute,
+// hour, day of month, month, day of week) with *, lists, ranges and steps,
+// plus the @hourly/@daily/@weekly/@monthly/@yearly shortcuts. Schedules
+// are evaluated in UTC so every MCP server process agrees on when they are due.
+
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@nightly': '0 2 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Give up looking for a match after this many years, e.g. for "0 0 30 2 *"
+const SEARCH_LIMIT_YEARS = 5;
+
+export function parseCron(expression: string): CronExpression {
+  const normalized = ALIASES[expression.trim().toLowerCase()] || expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" needs 5 fields (minute hour day month weekday)`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0); // 7 is Sunday too
+  }
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*'
+  };
+}
+
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// First minute strictly after `after` that matches the expression
+export function nextCronRun(expression: string | CronExpression, after: Date): Date {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const candidate = new Date(after.getTime());
+  candidate.setUTCSeconds(0, 0);
+  candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+
+  const limit = after.getTime() + SEARCH_LIMIT_YEARS * 366 * 24 * 60 * 60 * 1000;
+  while (candidate.getTime() <= limit) {
+    if (!cron.months.has(candidate.getUTCMonth() + 1)) {
+      candidate.setUTCMonth(candidate.getUTCMonth() + 1, 1);
+      candidate.setUTCHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, candidate)) {
+      candidate.setUTCDate(candidate.getUTCDate() + 1);
+      candidate.setUTCHours(0, 0);
+      continue;
+    }
+    if (!cron.hours.has(candidate.getUTCHours())) {
+      candidate.setUTCHours(candidate.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes.has(candidate.getUTCMinutes())) {
+      candidate.setUTCMinutes(candidate.getUTCMinutes() + 1);
+      continue;
+    }
+    return candidate;
+  }
+
+  throw new Error('Cron expression never matches');
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+
+  if (cron.anyDayOfMonth) return dayOfWeek;
+  if (cron.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+function parseField(field: string, min: number, max: number, names: string[] = [], nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.toLowerCase().split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step in cron field "${field}"`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else {
+      const [from, to] = range.split('-');
+      start = parseValue(from, names, nameOffset);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseValue(to, names, nameOffset);
+    }
+
+    if (Number.isNaN(start) || Number.isNaN(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid cron field "${field}" (expected values ${min}-${max})`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(value: string, names: string[], nameOffset: number): number {
+  const named = names.indexOf(value);
+  if (named !== -1) {
+    return named + nameOffset;
+  }
+  return /^\d+$/.test(value) ? Number(value) : NaN;
+}
@@ -0,0 +1,89 @@
+import { Task, ScheduledTask } from '../types/tasks.js';
+import { config } from '../config/index.js';
+
+export type SchedulingPolicyName = 'strict' | 'aging' | 'weighted-round-robin';
+
+export interface SchedulingPolicy {
+  name: SchedulingPolicyName;
+  // Returns the tasks with their effective score, best first
+  schedule(tasks: Task[], now?: Date): ScheduledTask[];
+}
+
+const byScore = (a: ScheduledTask, b: ScheduledTask) => {
+  if (a.effectiveScore !== b.effectiveScore) {
+    return b.effectiveScore - a.effectiveScore;
+  }
+  if (a.priority !== b.priority) {
+    return b.priority - a.priority;
+  }
+  return a.createdAt.localeCompare(b.createdAt);
+};
+
+// Highest priority first, oldest first within a priority
+export class StrictPrioritySchedulingPolicy implements SchedulingPolicy {
+  readonly name = 'strict';
+
+  schedule(tasks: Task[]): ScheduledTask[] {
+    return tasks
+      .map(task => ({ ...task, effectiveScore: task.priority }))
+      .sort(byScore);
+  }
+}
+
+// Priority plus a bonus that grows with time spent waiting, so low
+// priority work eventually overtakes a steady stream of urgent tasks
+export class PriorityAgingSchedulingPolicy implements SchedulingPolicy {
+  readonly name = 'aging';
+
+  constructor(private agingRate: number = config.tasks.agingRate) {}
+
+  schedule(tasks: Task[], now: Date = new Date()): ScheduledTask[] {
+    return tasks
+      .map(task => {
+        const waitingHours = Math.max(0, now.getTime() - new Date(task.createdAt).getTime()) / 3600000;
+        const effectiveScore = task.priority + waitingHours * this.agingRate;
+        return { ...task, effectiveScore: Math.round(effectiveScore * 100) / 100 };
+      })
+      .sort(byScore);
+  }
+}
+
+// Interleaves tasks grouped by their first tag, so every tag gets a share
+// of the queue proportional to its weight
+export class WeightedRoundRobinSchedulingPolicy implements SchedulingPolicy {
+  readonly name = 'weighted-round-robin';
+
+  constructor(private tagWeights: Record<string, number> = config.tasks.tagWeights) {}
+
+  schedule(tasks: Task[]): ScheduledTask[] {
+    const groups = new Map<string, Task[]>();
+    for (const task of tasks) {
+      const tag = task.tags[0] || 'UNTAGGED';
+      groups.set(tag, [...(groups.get(tag) || []), task]);
+    }
+
+    const scheduled: ScheduledTask[] = [];
+    for (const [tag, group] of groups) {
+      const weight = this.tagWeights[tag] ?? 1;
+      new StrictPrioritySchedulingPolicy().schedule(group).forEach((task, position) => {
+        const effectiveScore = weight / (position + 1);
+        scheduled.push({ ...task, effectiveScore: Math.round(effectiveScore * 1000) / 1000 });
+      });
+    }
+
+    return scheduled.sort(byScore);
+  }
+}
+
+export function createSchedulingPolicy(name: SchedulingPolicyName = config.tasks.schedulingPolicy): SchedulingPolicy {
+  switch (name) {
+    case 'strict':
+      return new StrictPrioritySchedulingPolicy();
+    case 'aging':
+      return new PriorityAgingSchedulingPolicy();
+    case 'weighted-round-robin':
+      return new WeightedRoundRobinSchedulingPolicy();
+    default:
+      throw new Error(`Unknown scheduling policy: ${name}`);
+  }
+}
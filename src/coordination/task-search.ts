@@ -0,0 +1,65 @@
+import { Task, TaskSearchHighlight } from '../types/tasks.js';
+
+const FIELD_WEIGHTS = { title: 3, tags: 2, description: 1, comment: 1 };
+const MAX_TERM_SCORE = Object.values(FIELD_WEIGHTS).reduce((sum, weight) => sum + weight, 0);
+const SNIPPET_RADIUS = 60;
+
+export function tokenizeQuery(query: string): string[] {
+  return Array.from(new Set(
+    query.toLowerCase().split(/[^\p{L}\p{N}_-]+/u).filter(term => term.length >= 2)
+  ));
+}
+
+// Weighted share of query terms found in the task's title, tags, description
+// and comments, 0-1, with a highlighted snippet for each field that matched
+export function scoreTaskKeywords(task: Task, terms: string[]): { score: number; highlights: TaskSearchHighlight[] } {
+  if (terms.length === 0) {
+    return { score: 0, highlights: [] };
+  }
+
+  const tags = task.tags.join(' ');
+  const comments = task.comments || [];
+  let total = 0;
+
+  for (const term of terms) {
+    if (contains(task.title, term)) total += FIELD_WEIGHTS.title;
+    if (contains(tags, term)) total += FIELD_WEIGHTS.tags;
+    if (contains(task.description, term)) total += FIELD_WEIGHTS.description;
+    if (comments.some(comment => contains(comment.body, term))) total += FIELD_WEIGHTS.comment;
+  }
+
+  const highlights: TaskSearchHighlight[] = [];
+  for (const [field, text] of [['title', task.title], ['tags', tags], ['description', task.description]] as const) {
+    const snippet = highlight(text, terms);
+    if (snippet) highlights.push({ field, snippet });
+  }
+  for (const comment of comments) {
+    const snippet = highlight(comment.body, terms);
+    if (snippet) highlights.push({ field: 'comment', commentId: comment.id, snippet });
+  }
+
+  return { score: total / (MAX_TERM_SCORE * terms.length), highlights };
+}
+
+// Excerpt around the first match with every matched term wrapped in **
+export function highlight(text: string, terms: string[]): string | undefined {
+  if (!text || terms.length === 0) return undefined;
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+  const first = text.search(pattern);
+  if (first < 0) return undefined;
+
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(text.length, first + SNIPPET_RADIUS * 2);
+  const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim();
+
+  return `${start > 0 ? '…' : ''}${excerpt.replace(pattern, match => `**${match}**`)}${end < text.length ? '…' : ''}`;
+}
+
+function contains(text: string | undefined, term: string): boolean {
+  return !!text && text.toLowerCase().includes(term);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,25 @@
+import { Task, TaskStatus } from '../types/tasks.js';
+import { InvalidTransitionError } from './errors.js';
+
+// Allowed status changes. Completed and cancelled tasks can only be reopened,
+// failed tasks can be requeued or given up on. Tasks awaiting approval are
+// queued when approved and cancelled when rejected.
+export const TASK_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  awaiting_approval: ['pending', 'cancelled'],
+  pending: ['in_progress', 'blocked', 'cancelled'],
+  in_progress: ['pending', 'blocked', 'completed', 'cancelled', 'failed'],
+  blocked: ['pending', 'in_progress', 'cancelled'],
+  completed: ['pending'],
+  cancelled: ['pending'],
+  failed: ['pending', 'cancelled']
+};
+
+export function canTransition(from: TaskStatus, to: TaskStatus): boolean {
+  return TASK_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(task: Task, to: TaskStatus): void {
+  if (!canTransition(task.status, to)) {
+    throw new InvalidTransitionError(task.id, task.status, to, TASK_TRANSITIONS[task.status]);
+  }
+}
@@ -0,0 +1,108 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { z } from 'zod';
+import { TaskTemplate } from '../types/tasks.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+const TaskTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  requiredFields: z.array(z.string()).default([]),
+  acceptanceCriteria: z.array(z.string()).default([]),
+  defaultTags: z.array(z.string()).default([]),
+  defaultRole: z.enum(['auditor', 'implementer', 'validator']).optional(),
+  defaultPriority: z.number().int().min(1).max(5).optional()
+});
+
+export const BUILT_IN_TEMPLATES: TaskTemplate[] = [
+  {
+    id: 'bug-fix',
+    name: 'Bug fix',
+    requiredFields: ['stepsToReproduce', 'expectedBehavior', 'actualBehavior'],
+    acceptanceCriteria: [
+      'Bug can no longer be reproduced with the documented steps',
+      'Regression test covers the failing case',
+      'Existing test suite passes'
+    ],
+    defaultTags: ['FIX', 'IMPLEMENT'],
+    defaultRole: 'implementer',
+    defaultPriority: 4
+  },
+  {
+    id: 'feature',
+    name: 'Feature',
+    requiredFields: ['userStory'],
+    acceptanceCriteria: [
+      'Feature behaves as described in the user story',
+      'Tests cover the new behavior',
+      'Documentation is updated'
+    ],
+    defaultTags: ['FEATURE', 'IMPLEMENT'],
+    defaultRole: 'implementer',
+    defaultPriority: 3
+  },
+  {
+    id: 'refactor',
+    name: 'Refactor',
+    requiredFields: ['motivation', 'scope'],
+    acceptanceCriteria: [
+      'Behavior is unchanged',
+      'Existing test suite passes without modifying assertions',
+      'No new lint or type errors'
+    ],
+    defaultTags: ['REFACTOR', 'IMPLEMENT'],
+    defaultRole: 'implementer',
+    defaultPriority: 2
+  },
+  {
+    id: 'security-fix',
+    name: 'Security fix',
+    requiredFields: ['vulnerability', 'affectedFiles', 'severity'],
+    acceptanceCriteria: [
+      'Vulnerability is no longer exploitable',
+      'Test demonstrates the attack is rejected',
+      'No secrets or credentials are exposed in the change',
+      'Security scan passes'
+    ],
+    defaultTags: ['FIX', 'SECURITY', 'IMPLEMENT'],
+    defaultRole: 'implementer',
+    defaultPriority: 5
+  }
+];
+
+// Built-in templates, overridden or extended by JSON files in the project's
+// templates directory (one template per file)
+export function loadTaskTemplates(directory: string = config.tasks.templatesDirectory): Map<string, TaskTemplate> {
+  const templates = new Map(BUILT_IN_TEMPLATES.map(template => [template.id, template]));
+
+  if (!existsSync(directory)) {
+    return templates;
+  }
+
+  for (const file of readdirSync(directory).filter(name => name.endsWith('.json'))) {
+    try {
+      const template = TaskTemplateSchema.parse(JSON.parse(readFileSync(join(directory, file), 'utf8')));
+      templates.set(template.id, template as TaskTemplate);
+    } catch (error) {
+      logger.warn('TaskTemplates', `Skipping invalid task template ${file}`, error);
+    }
+  }
+
+  logger.info('TaskTemplates', `Loaded ${templates.size} task templates`);
+  return templates;
+}
+
+// Appends the template fields to the description as markdown sections
+export function renderTemplateDescription(description: string, fields: Record<string, string>): string {
+  const sections = Object.entries(fields)
+    .map(([name, value]) => `## ${formatFieldName(name)}\n${value}`);
+
+  return [description, ...sections].filter(Boolean).join('\n\n');
+}
+
+function formatFieldName(name: string): string {
+  const words = name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/[_-]+/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1).toLowerCase();
+}
@@ -3,24 +3,9 @@ import { z } from 'zod';
 export const AgentStateSchema = z.enum(['idle', 'working', 'error', 'offline']);
 export type AgentState = z.infer<typeof AgentStateSchema>;
 
-export const TaskStatusSchema = z.enum(['pending', 'in_progress', 'completed', 'failed']);
-export type TaskStatus = z.infer<typeof TaskStatusSchema>;
-
-export const TaskSchema = z.object({
-  id: z.string(),
-  type: z.string(),
-  description: z.string(),
-  priority: z.number().min(0).max(10),
-  status: TaskStatusSchema,
-  assignedTo: z.string().optional(),
-  dependencies: z.array(z.string()).optional(),
-  createdAt: z.string(),
-  updatedAt: z.string(),
-  completedAt: z.string().optional(),
-  result: z.any().optional(),
-  error: z.string().optional()
-});
-export type Task = z.infer<typeof TaskSchema>;
+// Tasks follow the canonical model in ./tasks.ts
+export { TaskSchema, TaskStatusSchema } from './tasks.js';
+export type { Task, TaskStatus } from './tasks.js';
 
 export const AgentInfoSchema = z.object({
   id: z.string(),
@@ -39,10 +24,11 @@ export type AgentInfo = z.infer<typeof AgentInfoSchema>;
 
 export const SharedContextSchema = z.object({
   version: z.number(),
-  currentTask: TaskSchema.optional(),
-  taskQueue: z.array(TaskSchema),
+  schemaVersion: z.number().int().min(0), // Shape of the stored context, see context-migrations.ts
   agentStates: z.record(z.string(), AgentInfoSchema),
   globalState: z.record(z.string(), z.any()),
+  keyVersions: z.record(z.string(), z.number()).default({}), // Context version that last wrote each globalState key
+  expiries: z.record(z.string(), z.string()).default({}), // When each globalState path written with a TTL is deleted
   lastUpdated: z.string()
 });
 export type SharedContext = z.infer<typeof SharedContextSchema>;
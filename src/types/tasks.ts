@@ -1,38 +1,307 @@
-export type TaskStatus = 'pending' | 'in_progress' | 'blocked' | 'completed' | 'cancelled';
+import { z } from 'zod';
 
-export type TaskPriority = 1 | 2 | 3 | 4 | 5; // 1 = lowest, 5 = highest
+// The canonical task model. Every task read from or written to the shared
+// context, an MCP tool or an import file is validated against TaskSchema.
 
-export type RoleName = 'auditor' | 'implementer' | 'validator';
+export const TaskStatusSchema = z.enum(['awaiting_approval', 'pending', 'in_progress', 'blocked', 'completed', 'cancelled', 'failed']);
+export type TaskStatus = z.infer<typeof TaskStatusSchema>;
 
-export interface Task {
+export const TaskPrioritySchema = z.union([z.literal(1), z.literal(2), z.literal(3), z.literal(4), z.literal(5)]);
+export type TaskPriority = z.infer<typeof TaskPrioritySchema>; // 1 = lowest, 5 = highest
+
+export const RoleNameSchema = z.enum(['auditor', 'implementer', 'validator']);
+export type RoleName = z.infer<typeof RoleNameSchema>;
+
+export const TaskLeaseSchema = z.object({
+  holder: z.string(), // Claude instance ID holding the claim
+  acquiredAt: z.string(),
+  renewedAt: z.string(),
+  expiresAt: z.string()
+});
+export type TaskLease = z.infer<typeof TaskLeaseSchema>;
+
+export const TaskHistoryEventSchema = z.enum(['transition', 'claimed', 'renewed', 'lease_expired', 'merged', 'imported', 'migrated']);
+export type TaskHistoryEvent = z.infer<typeof TaskHistoryEventSchema>;
+
+export const TaskHistoryEntrySchema = z.object({
+  event: TaskHistoryEventSchema,
+  from: TaskStatusSchema.optional(), // Set when the entry records a status change
+  to: TaskStatusSchema.optional(),
+  actor: z.string(),
+  timestamp: z.string(),
+  reason: z.string().optional()
+});
+export type TaskHistoryEntry = z.infer<typeof TaskHistoryEntrySchema>;
+
+export const RetryBackoffSchema = z.enum(['fixed', 'exponential']);
+export type RetryBackoff = z.infer<typeof RetryBackoffSchema>;
+
+export const RetryPolicySchema = z.object({
+  maxAttempts: z.number().int().min(1), // Attempts before the task lands in the dead-letter queue
+  backoff: RetryBackoffSchema,
+  baseDelay: z.number().min(0), // Seconds before the first retry
+  maxDelay: z.number().min(0) // Cap on the delay in seconds
+});
+export type RetryPolicy = z.infer<typeof RetryPolicySchema>;
+
+export const TaskFailureSchema = z.object({
+  attempt: z.number().int(),
+  error: z.string(),
+  failedBy: z.string(),
+  failedAt: z.string()
+});
+export type TaskFailure = z.infer<typeof TaskFailureSchema>;
+
+export const AcceptanceCriterionStatusSchema = z.enum(['open', 'checked', 'waived']);
+export type AcceptanceCriterionStatus = z.infer<typeof AcceptanceCriterionStatusSchema>;
+
+export const AcceptanceCriterionSchema = z.object({
+  id: z.string(),
+  description: z.string(),
+  status: AcceptanceCriterionStatusSchema,
+  updatedBy: z.string().optional(),
+  updatedAt: z.string().optional(),
+  note: z.string().optional() // Evidence for a check, required reason for a waiver
+});
+export type AcceptanceCriterion = z.infer<typeof AcceptanceCriterionSchema>;
+
+export const TaskFileReferenceSchema = z.object({
+  file: z.string(),
+  line: z.number().int().optional(),
+  endLine: z.number().int().optional()
+});
+export type TaskFileReference = z.infer<typeof TaskFileReferenceSchema>;
+
+export const TaskCommentSchema = z.object({
+  id: z.string(),
+  author: z.string(), // Claude instance ID
+  role: RoleNameSchema.optional(),
+  body: z.string(), // Markdown
+  references: z.array(TaskFileReferenceSchema).optional(),
+  replyTo: z.string().optional(), // Comment this one answers
+  ragDocumentId: z.string().optional(),
+  createdAt: z.string()
+});
+export type TaskComment = z.infer<typeof TaskCommentSchema>;
+
+export const TaskResultsSchema = z.object({
+  files: z.array(z.string()).optional(), // Files created/modified
+  commands: z.array(z.string()).optional(), // Commands executed
+  tests: z.array(z.string()).optional(), // Tests run
+  metrics: z.record(z.string(), z.any()).optional() // Performance metrics, etc.
+});
+
+export const TaskSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string(),
+  type: z.string().optional(), // Kind of work, for agents that dispatch on it (e.g. fix_errors)
+  tags: z.array(z.string()),
+  assignedRole: RoleNameSchema.optional(),
+  assignedTo: z.string().optional(), // Claude instance ID
+  lease: TaskLeaseSchema.optional(), // Present while a claim is held
+  status: TaskStatusSchema,
+  priority: TaskPrioritySchema,
+  dependencies: z.array(z.string()).optional(), // Other task IDs that must complete first
+  parentId: z.string().optional(), // Epic this task is a subtask of
+  children: z.array(z.string()).optional(), // Subtask IDs, status and progress roll up from them
+  progress: z.number().optional(), // Percentage of subtasks completed
+  possibleDuplicates: z.array(z.string()).optional(), // Similar open tasks found when this one was created
+  templateId: z.string().optional(),
+  scheduleId: z.string().optional(), // Schedule this task was materialised from
+  approvalId: z.string().optional(), // Approval request gating this task while it is awaiting_approval
+  fields: z.record(z.string(), z.string()).optional(), // Values for the template's fields
+  acceptanceCriteria: z.array(AcceptanceCriterionSchema).optional(), // All must be checked or waived before completion
+  blockedBy: z.string().optional(), // What's blocking this task
+  cascadedFrom: z.array(z.string()).optional(), // Upstream tasks whose block or cancellation cascaded here
+  estimate: z.number().positive().optional(), // Expected effort in hours
+  retryPolicy: RetryPolicySchema.optional(), // Overrides tag and default retry policies
+  attempts: z.number().int().min(0).optional(), // Failed attempts so far
+  nextRetryAt: z.string().optional(), // Not claimable before this while backing off
+  failures: z.array(TaskFailureSchema).optional(),
+
+  // Context and history
+  context: z.string().optional(), // RAG reference for relevant knowledge
+  ragDocumentIds: z.array(z.string()).optional(), // Related documents in RAG
+
+  // Metadata
+  createdBy: z.string(), // Which Claude instance created this
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  completedAt: z.string().optional(),
+  history: z.array(TaskHistoryEntrySchema).optional(),
+  comments: z.array(TaskCommentSchema).optional(),
+
+  // Results and artifacts
+  results: TaskResultsSchema.optional()
+});
+export type Task = z.infer<typeof TaskSchema>;
+
+// Things the approval policy can hold for a human decision: new tasks, and
+// actions Claude instances announce before taking them
+export const ApprovalActionSchema = z.enum(['task', 'merge', 'commit', 'config_edit']);
+export type ApprovalAction = z.infer<typeof ApprovalActionSchema>;
+
+export const ApprovalStatusSchema = z.enum(['awaiting_approval', 'approved', 'rejected']);
+export type ApprovalStatus = z.infer<typeof ApprovalStatusSchema>;
+
+// Every request is kept, including those the policy let through, as the audit trail
+export const ApprovalRequestSchema = z.object({
+  id: z.string().min(1),
+  action: ApprovalActionSchema,
+  taskId: z.string().optional(),
+  summary: z.string(),
+  files: z.array(z.string()).optional(),
+  automationLevel: z.string(), // Level in force when the request was made
+  policyReason: z.string().optional(), // Why the policy held it for a human
+  status: ApprovalStatusSchema,
+  requestedBy: z.string(),
+  requestedAt: z.string(),
+  decidedBy: z.string().optional(),
+  decidedAt: z.string().optional(),
+  reason: z.string().optional() // Given with the decision
+});
+export type ApprovalRequest = z.infer<typeof ApprovalRequestSchema>;
+
+// A recurring task definition. Each time the cron expression comes due the
+// scheduler creates a task from `task`, unless the previous one is still open.
+export const TaskScheduleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  cron: z.string(), // Five-field cron expression or @daily-style shortcut, evaluated in UTC
+  task: z.object({
+    title: z.string().min(1),
+    description: z.string(),
+    type: z.string().optional(),
+    tags: z.array(z.string()),
+    priority: TaskPrioritySchema.optional(),
+    assignedRole: RoleNameSchema.optional(),
+    estimate: z.number().positive().optional()
+  }),
+  enabled: z.boolean(),
+  createdBy: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  nextRunAt: z.string(),
+  lastRunAt: z.string().optional(),
+  lastTaskId: z.string().optional() // Most recent task materialised from this schedule
+});
+export type TaskSchedule = z.infer<typeof TaskScheduleSchema>;
+
+// What a scheduler pass did with one due schedule
+export interface ScheduleRun {
+  scheduleId: string;
+  taskId?: string; // Set when a task was created
+  skipped?: string; // Why no task was created
+  nextRunAt: string;
+}
+
+// The task shape written by the first agent framework (a `type` instead of
+// a title and tags, priority 0-10). Only read, to upgrade old context files.
+export const LegacyTaskSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  description: z.string(),
+  priority: z.number().min(0).max(10),
+  status: z.enum(['pending', 'in_progress', 'completed', 'failed']),
+  assignedTo: z.string().optional(),
+  dependencies: z.array(z.string()).optional(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  completedAt: z.string().optional(),
+  result: z.any().optional(),
+  error: z.string().optional()
+});
+export type LegacyTask = z.infer<typeof LegacyTaskSchema>;
+
+// A failed task that exhausted its retries
+export interface DeadLetterTask {
+  taskId: string;
+  title: string;
+  tags: string[];
+  attempts: number;
+  maxAttempts: number;
+  lastError?: string;
+  failedAt?: string;
+  failures: TaskFailure[];
+}
+
+export interface TaskTemplate {
   id: string;
+  name: string;
+  description?: string;
+  requiredFields: string[]; // Fields that must be filled in, e.g. stepsToReproduce
+  acceptanceCriteria: string[]; // Definition of done
+  defaultTags: string[];
+  defaultRole?: RoleName;
+  defaultPriority?: TaskPriority;
+}
+
+export interface TaskCommentThread extends TaskComment {
+  replies: TaskCommentThread[];
+}
+
+export interface SubtaskInput {
   title: string;
   description: string;
-  tags: string[];
+  tags?: string[]; // Defaults to the parent's tags
+  priority?: TaskPriority;
   assignedRole?: RoleName;
-  assignedTo?: string; // Claude instance ID
+  dependencies?: string[];
+  estimate?: number;
+}
+
+// What happens to dependents when a task is cancelled: they wait blocked
+// until it is reopened, or they are cancelled along with it
+export type CancelCascade = 'block' | 'cancel';
+
+// What createTask does when similar open tasks already exist
+export type DuplicatePolicy = 'off' | 'reject' | 'merge' | 'link';
+
+export interface DuplicateMatch {
+  taskId: string;
+  title: string;
+  score: number;
+}
+
+export interface CreateTaskOptions {
+  priority?: TaskPriority;
+  assignedRole?: Task['assignedRole'];
+  dependencies?: string[];
+  context?: string;
+  parentId?: string;
+  duplicatePolicy?: DuplicatePolicy;
+  acceptanceCriteria?: string[];
+  templateId?: string;
+  fields?: Record<string, string>;
+  estimate?: number;
+  retryPolicy?: RetryPolicy;
+  type?: string;
+  scheduleId?: string;
+}
+
+// A created task along with the duplicates found. When the policy merged
+// the new task into an existing one, that existing task is returned.
+export type CreatedTask = Task & { duplicates: DuplicateMatch[]; merged: boolean };
+
+// A task as ranked by the scheduling policy
+export type ScheduledTask = Task & { effectiveScore: number };
+
+export interface ImportedTaskEntry {
+  sourceId: string;
+  taskId: string;
+  title: string;
   status: TaskStatus;
-  priority: TaskPriority;
-  dependencies?: string[]; // Other task IDs that must complete first
-  blockedBy?: string; // What's blocking this task
-  
-  // Context and history
-  context?: string; // RAG reference for relevant knowledge
-  ragDocumentIds?: string[]; // Related documents in RAG
-  
-  // Metadata
-  createdBy: string; // Which Claude instance created this
-  createdAt: string;
-  updatedAt: string;
-  completedAt?: string;
-  
-  // Results and artifacts
-  results?: {
-    files?: string[]; // Files created/modified
-    commands?: string[]; // Commands executed
-    tests?: string[]; // Tests run
-    metrics?: Record<string, any>; // Performance metrics, etc.
-  };
+}
+
+// Outcome of an import; with dryRun nothing was written
+export interface TaskImportResult {
+  dryRun: boolean;
+  created: ImportedTaskEntry[];
+  skipped: ImportedTaskEntry[]; // Already in the store under the same ID
+  idMap: Record<string, string>; // Source ID -> task ID in this store
+  warnings: string[];
+  diff: string[];
 }
 
 export interface TaskFilter {
@@ -45,10 +314,113 @@ export interface TaskFilter {
   includeCompleted?: boolean;
 }
 
+export interface TaskSearchOptions {
+  filter?: TaskFilter; // Completed tasks are included unless the filter says otherwise
+  from?: string; // ISO date-time, compared against dateField
+  to?: string;
+  dateField?: 'createdAt' | 'updatedAt' | 'completedAt';
+  semantic?: boolean; // Also rank by RAG similarity (default true)
+  limit?: number;
+  offset?: number;
+}
+
+export interface TaskSearchHighlight {
+  field: 'title' | 'description' | 'tags' | 'comment' | 'rag';
+  commentId?: string;
+  snippet: string; // Matched terms wrapped in **
+}
+
+export interface TaskSearchHit {
+  task: Task;
+  score: number; // Blend of keyword and semantic scores, 0-1
+  keywordScore: number;
+  semanticScore: number;
+  highlights: TaskSearchHighlight[];
+}
+
+export interface TaskSearchResult {
+  query: string;
+  total: number;
+  offset: number;
+  limit: number;
+  hits: TaskSearchHit[];
+}
+
 export interface TaskUpdate {
+  title?: string;
+  description?: string;
+  tags?: string[];
+  priority?: TaskPriority;
+  assignedRole?: RoleName;
+  estimate?: number;
+  attempts?: number;
+  nextRetryAt?: string;
+  failures?: TaskFailure[];
+  cascadedFrom?: string[];
   status?: TaskStatus;
   assignedTo?: string;
+  dependencies?: string[];
   blockedBy?: string;
   results?: Task['results'];
   ragDocumentIds?: string[];
-}
\ No newline at end of file
+  reason?: string; // Recorded in the task history, not stored on the task
+  cascade?: CancelCascade; // Only used when cancelling, not stored on the task
+}
+
+// Hours spent in each status, derived from the task history
+export type TaskDwellTimes = Record<TaskStatus, number>;
+
+export interface DurationStats {
+  count: number;
+  average: number; // Hours
+  median: number;
+  p90: number;
+}
+
+export interface RoleThroughput {
+  completed: number;
+  perDay: number;
+}
+
+export interface EstimateAccuracy {
+  estimated: number; // Completed tasks that had an estimate
+  averageRatio: number; // Actual in_progress hours / estimated hours
+  withinTolerance: number; // Tasks whose actual effort was within 20% of the estimate
+}
+
+export interface TaskAnalytics {
+  from: string;
+  to: string;
+  completed: number;
+  leadTime: DurationStats; // Created to completed
+  cycleTime: DurationStats; // First started to completed
+  throughputByRole: Record<RoleName | 'unassigned', RoleThroughput>;
+  averageDwellTimes: TaskDwellTimes;
+  estimateAccuracy: EstimateAccuracy;
+}
+
+export interface TaskGraphNode {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority: TaskPriority;
+  assignedRole?: RoleName;
+}
+
+export interface TaskGraphEdge {
+  from: string; // Dependency
+  to: string;   // Task waiting on it
+}
+
+export interface BlockedTask {
+  taskId: string;
+  waitingOn: string[]; // Dependencies that have not completed yet
+  missing: string[];   // Dependencies that do not exist
+}
+
+export interface TaskGraph {
+  nodes: TaskGraphNode[];
+  edges: TaskGraphEdge[];
+  criticalPath: string[]; // Longest chain of unfinished tasks, first dependency first
+  blockedFrontier: BlockedTask[]; // Open tasks held back only by unfinished dependencies
+}
@@ -0,0 +1,89 @@
+import { openSync, writeSync, closeSync, unlinkSync, statSync, readFileSync, utimesSync } from 'fs';
+import { randomUUID } from 'crypto';
+
+export interface FileLockOptions {
+  timeout?: number;    // How long to wait for the lock (ms)
+  staleAfter?: number; // Locks not refreshed for this long are assumed abandoned (ms)
+  retryDelay?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs `fn` while holding an exclusive lock file shared between processes.
+// The holder touches the file while `fn` runs, so only a holder that died
+// goes stale, however long `fn` takes. Each lock carries a token and is only
+// removed by the holder that wrote it.
+export async function withFileLock<T>(
+  lockPath: string,
+  fn: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const { timeout = 5000, staleAfter = 30000, retryDelay = 25 } = options;
+  const startedAt = Date.now();
+  const token = randomUUID();
+
+  for (;;) {
+    try {
+      const fd = openSync(lockPath, 'wx');
+      writeSync(fd, JSON.stringify({ pid: process.pid, token, acquiredAt: new Date().toISOString() }));
+      closeSync(fd);
+      break;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    try {
+      const heldBy = readToken(lockPath);
+      if (Date.now() - statSync(lockPath).mtimeMs > staleAfter) {
+        // Only remove the lock we judged stale, not one taken since
+        if (readToken(lockPath) === heldBy) {
+          unlinkSync(lockPath);
+        }
+        continue;
+      }
+    } catch {
+      // Lock was released between the attempts
+      continue;
+    }
+
+    if (Date.now() - startedAt > timeout) {
+      throw new Error(`Timed out waiting for lock ${lockPath}`);
+    }
+    await sleep(retryDelay);
+  }
+
+  const heartbeat = setInterval(() => {
+    try {
+      if (readToken(lockPath) === token) {
+        const now = new Date();
+        utimesSync(lockPath, now, now);
+      }
+    } catch {
+      // Checked again on release
+    }
+  }, Math.max(staleAfter / 3, retryDelay));
+  heartbeat.unref();
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(heartbeat);
+    try {
+      if (readToken(lockPath) === token) {
+        unlinkSync(lockPath);
+      }
+    } catch {
+      // Already removed as stale by another process
+    }
+  }
+}
+
+function readToken(lockPath: string): string | undefined {
+  try {
+    return JSON.parse(readFileSync(lockPath, 'utf8')).token;
+  } catch {
+    return undefined;
+  }
+}
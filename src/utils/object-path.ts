@@ -0,0 +1,206 @@
+// Addressing values inside nested objects and arrays. Paths are either dot
+// paths ("agentStates.agent-1.state", "items.0") or JSON Pointers
+// ("/agentStates/agent-1/state", RFC 6901) for keys that contain dots.
+// In both forms "-" as the last array segment means "append".
+
+// Array edits that can be written in place of a value
+export type ArrayOperation =
+  | { $append: any } // A value, or an array of values, added at the end
+  | { $removeById: string | string[] }; // Items whose `id` matches
+
+export class ObjectPathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ObjectPathError';
+  }
+}
+
+export function parsePath(path: string): string[] {
+  if (path === '' || path === '/') {
+    return [];
+  }
+
+  if (path.startsWith('/')) {
+    return path
+      .slice(1)
+      .split('/')
+      .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+
+  const segments = path.split('.');
+  if (segments.some(segment => segment === '')) {
+    throw new ObjectPathError(`Invalid path "${path}": empty segment`);
+  }
+  return segments;
+}
+
+// Dot form when every segment allows it, JSON Pointer otherwise
+export function formatPath(segments: string[]): string {
+  if (segments.every(segment => segment !== '' && !segment.includes('.') && !segment.startsWith('/'))) {
+    return segments.join('.');
+  }
+  return `/${segments.map(segment => segment.replace(/~/g, '~0').replace(/\//g, '~1')).join('/')}`;
+}
+
+export function getPath(target: any, segments: string[]): any {
+  let current = target;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    if (Array.isArray(current) && !/^\d+$/.test(segment)) {
+      return undefined;
+    }
+    current = current[segment];
+  }
+  return current;
+}
+
+// Sets a value, creating intermediate objects as needed. Fails rather than
+// replacing a primitive that is in the way.
+export function setPath(target: Record<string, any>, segments: string[], value: any): void {
+  if (segments.length === 0) {
+    throw new ObjectPathError('Cannot set the root of an object');
+  }
+
+  let current: any = target;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i];
+    const key = Array.isArray(current) ? arrayIndex(current, segment) : segment;
+    if (current[key] === undefined || current[key] === null) {
+      current[key] = {};
+    } else if (typeof current[key] !== 'object') {
+      throw new ObjectPathError(`Cannot set "${formatPath(segments)}": "${formatPath(segments.slice(0, i + 1))}" is not an object`);
+    }
+    current = current[key];
+  }
+
+  const last = segments[segments.length - 1];
+  if (Array.isArray(current)) {
+    current[arrayIndex(current, last)] = value;
+  } else {
+    current[last] = value;
+  }
+}
+
+// Whether setPath would succeed, without changing anything
+export function canSetPath(target: Record<string, any>, segments: string[]): boolean {
+  let current: any = target;
+  for (const segment of segments) {
+    if (current === undefined || current === null) {
+      return true; // Created on the way
+    }
+    if (typeof current !== 'object' || (Array.isArray(current) && segment !== '-' && !/^\d+$/.test(segment))) {
+      return false;
+    }
+    current = Array.isArray(current) && segment === '-' ? undefined : current[segment];
+  }
+  return segments.length > 0;
+}
+
+// Removes a value, splicing it out of arrays. Returns whether anything was there.
+export function deletePath(target: Record<string, any>, segments: string[]): boolean {
+  if (segments.length === 0) {
+    throw new ObjectPathError('Cannot delete the root of an object');
+  }
+
+  const parent = getPath(target, segments.slice(0, -1));
+  const last = segments[segments.length - 1];
+  if (Array.isArray(parent)) {
+    if (!/^\d+$/.test(last) || Number(last) >= parent.length) return false;
+    parent.splice(Number(last), 1);
+    return true;
+  }
+  if (parent === null || typeof parent !== 'object' || !(last in parent)) {
+    return false;
+  }
+  delete parent[last];
+  return true;
+}
+
+export function isArrayOperation(value: unknown): value is ArrayOperation {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length === 1 && (keys[0] === '$append' || keys[0] === '$removeById');
+}
+
+// The array that results from applying `operation` to `current`, which is
+// left untouched. A missing array counts as empty.
+export function applyArrayOperation(current: unknown, operation: ArrayOperation): any[] {
+  if (current !== undefined && current !== null && !Array.isArray(current)) {
+    throw new ObjectPathError('Array operations need an array to work on');
+  }
+  const items = [...(current as any[] | undefined || [])];
+
+  if ('$append' in operation) {
+    return items.concat(Array.isArray(operation.$append) ? operation.$append : [operation.$append]);
+  }
+
+  const ids = new Set(Array.isArray(operation.$removeById) ? operation.$removeById : [operation.$removeById]);
+  return items.filter(item => !(item && typeof item === 'object' && ids.has(item.id)));
+}
+
+// Folds keys written as literal dot paths ("a.b.c": 1) back into nested
+// structure in place, ancestors first so deeper keys land inside them.
+// Returns the keys that were folded and the ones that could not be,
+// because something other than an object is in the way.
+export function foldFlattenedKeys(target: Record<string, any>): { folded: string[]; conflicts: string[] } {
+  const flattened = Object.keys(target)
+    .filter(key => key.includes('.'))
+    .sort((a, b) => a.split('.').length - b.split('.').length);
+  const folded: string[] = [];
+  const conflicts: string[] = [];
+
+  for (const key of flattened) {
+    const value = target[key];
+    delete target[key];
+    try {
+      setPath(target, key.split('.').filter(segment => segment !== ''), value);
+      folded.push(key);
+    } catch (error) {
+      if (!(error instanceof ObjectPathError)) throw error;
+      target[key] = value;
+      conflicts.push(key);
+    }
+  }
+
+  return { folded, conflicts };
+}
+
+export interface PathDifference {
+  path: string;
+  before?: unknown; // Unset when the path was added
+  after?: unknown; // Unset when the path was removed
+}
+
+// Paths whose values differ between two values, descending into objects
+// present on both sides. Arrays and other values are compared whole.
+export function diffPaths(before: unknown, after: unknown, prefix: string[] = []): PathDifference[] {
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+  if (isRecord(before) && isRecord(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap(key => diffPaths(before[key], after[key], [...prefix, key]));
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  const difference: PathDifference = { path: formatPath(prefix) };
+  if (before !== undefined) difference.before = before;
+  if (after !== undefined) difference.after = after;
+  return [difference];
+}
+
+function arrayIndex(array: any[], segment: string): number {
+  if (segment === '-') {
+    return array.length;
+  }
+  if (!/^\d+$/.test(segment)) {
+    throw new ObjectPathError(`"${segment}" is not an array index`);
+  }
+  return Number(segment);
+}